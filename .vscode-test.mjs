@@ -2,4 +2,8 @@ import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	mocha: {
+		// Speech tests spawn the fake piper and player processes
+		timeout: 20000,
+	},
 });
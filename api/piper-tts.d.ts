@@ -0,0 +1,192 @@
+// Type definitions for the Piper TTS extension API 1.3.0
+// Copy this file into your extension and cast the activated extension's exports to PiperTTSApi.
+// Check apiVersion at runtime: members added in later minor versions are missing from older releases.
+
+import * as vscode from 'vscode';
+import { Readable } from 'stream';
+
+export type AudioFileFormat = 'wav' | 'mp3' | 'ogg';
+
+export interface SynthesisSettings {
+    /** Phoneme length multiplier; below 1 is faster, above 1 is slower */
+    lengthScale?: number;
+    /** Generator noise */
+    noiseScale?: number;
+    /** Phoneme width noise */
+    noiseW?: number;
+    /** Seconds of silence after each sentence */
+    sentenceSilence?: number;
+}
+
+export interface ReadTextOptions extends SynthesisSettings {
+    /** ID of an installed voice to use instead of the piper-tts.voice setting, e.g. "en_US-amy-medium" */
+    voice?: string;
+    /** Speaker name from the voice's speaker_id_map or numeric speaker ID */
+    speaker?: string | number;
+    /** VS Code language ID of the text, used for preprocessing and language-specific settings */
+    languageId?: string;
+}
+
+export interface SynthesizeToFileOptions extends ReadTextOptions {
+    /** Inferred from the file extension when omitted */
+    format?: AudioFileFormat;
+    /** Path to the sox binary used for MP3/OGG encoding */
+    soxPath?: string;
+}
+
+/** @since 1.2.0 Piper produces 16-bit mono PCM at the voice's sample rate */
+export interface PcmFormat {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+}
+
+/** @since 1.2.0 Signed little-endian PCM in the given format */
+export interface SynthesizedAudio {
+    pcm: Buffer;
+    format: PcmFormat;
+}
+
+/** @since 1.2.0 Raw PCM as it is synthesized; destroying the stream stops synthesis */
+export interface PcmAudioStream extends Readable {
+    readonly format: PcmFormat;
+}
+
+export interface TextTransformContext {
+    languageId: string;
+}
+
+export interface TextTransformer {
+    /** Name used to reference the transformer from the piper-tts.textPreprocessing setting */
+    id: string;
+    /** Languages the transformer always applies to */
+    languages?: string[];
+    transform(text: string, context: TextTransformContext): string;
+}
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+export interface QueuedUtterance {
+    id: number;
+    text: string;
+}
+
+export interface PlaybackQueueSnapshot {
+    state: PlaybackState;
+    current?: QueuedUtterance;
+    pending: QueuedUtterance[];
+}
+
+export interface VoiceLanguage {
+    code: string;
+    family?: string;
+    region?: string;
+    nameNative?: string;
+    nameEnglish?: string;
+    countryEnglish?: string;
+}
+
+export interface VoiceMetadata {
+    id: string;
+    name: string;
+    quality: string;
+    sampleRate: number;
+    numSpeakers: number;
+    speakerIdMap: Record<string, number>;
+    language: VoiceLanguage;
+    inference: { noiseScale?: number; lengthScale?: number; noiseW?: number };
+    /** False when the .onnx.json could not be read and values were derived from the voice ID */
+    hasConfig: boolean;
+}
+
+/** @since 1.1.0 Offsets into the text passed to readText or enqueue, end exclusive */
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * @since 1.1.0 One readText or enqueue call. Resolves when all of its text has been read, or when it
+ * was cancelled or interrupted; rejects if synthesis or playback failed.
+ */
+export interface Utterance extends Promise<void> {
+    readonly id: number;
+    /** Stop this utterance, or remove it from the queue, without affecting other speech */
+    cancel(): void;
+}
+
+/** @since 1.1.0 */
+export interface SpeakingEvent {
+    utteranceId: number;
+    text: string;
+    /** Voice the first sentence is read with */
+    voice: string;
+}
+
+/** @since 1.1.0 */
+export interface SentenceChangeEvent {
+    utteranceId: number;
+    sentenceIndex: number;
+    text: string;
+    range: TextRange;
+    voice: string;
+}
+
+/** @since 1.1.0 'cancelled' covers cancel(), stopPlayback(), clearQueue() and interruption by readText */
+export type FinishReason = 'completed' | 'cancelled' | 'error';
+
+/** @since 1.1.0 */
+export interface FinishSpeakingEvent {
+    utteranceId: number;
+    reason: FinishReason;
+}
+
+/** @since 1.1.0 */
+export interface SpeechErrorEvent {
+    utteranceId: number;
+    message: string;
+}
+
+/**
+ * Text passed to readText, enqueue and the synthesize methods may be SSML (@since 1.3.0). Text wrapped in a
+ * <speak> element supports <break time|strength>, <prosody rate>, <voice name>, <say-as interpret-as="characters">
+ * and <sub alias>; other elements are ignored and their text is read. Invalid markup rejects the returned
+ * utterance or promise, and synthesizeStream throws.
+ */
+export interface PiperTTSApi {
+    /** @since 1.1.0 Semantic version of this API, e.g. "1.1.0" */
+    readonly apiVersion: string;
+    /** Stops whatever is playing, clears the queue and reads the text straight away */
+    readText(text: string, options?: ReadTextOptions): Utterance;
+    /** Adds the text to the end of the playback queue without interrupting current speech */
+    enqueue(text: string, options?: ReadTextOptions): Utterance;
+    /** @since 1.2.0 Synthesize without playing, independent of what the user is listening to */
+    synthesize(text: string, options?: ReadTextOptions): Promise<SynthesizedAudio>;
+    /** @since 1.2.0 Like synthesize, but streams the PCM as each sentence is ready */
+    synthesizeStream(text: string, options?: ReadTextOptions): PcmAudioStream;
+    synthesizeToFile(text: string, uri: vscode.Uri, options?: SynthesizeToFileOptions): Promise<void>;
+    stopPlayback(): void;
+    pause(): void;
+    resume(): void;
+    skip(): void;
+    clearQueue(): void;
+    getQueue(): PlaybackQueueSnapshot;
+    readonly onDidChangeQueue: vscode.Event<PlaybackQueueSnapshot>;
+    /** @since 1.1.0 */
+    getState(): PlaybackState;
+    /** @since 1.1.0 The voice being spoken, or the configured voice for the active editor when idle */
+    getCurrentVoice(): string;
+    /** @since 1.1.0 */
+    readonly onDidStartSpeaking: vscode.Event<SpeakingEvent>;
+    /** @since 1.1.0 */
+    readonly onDidChangeSentence: vscode.Event<SentenceChangeEvent>;
+    /** @since 1.1.0 */
+    readonly onDidFinishSpeaking: vscode.Event<FinishSpeakingEvent>;
+    /** @since 1.1.0 */
+    readonly onDidError: vscode.Event<SpeechErrorEvent>;
+    selectVoice(): Promise<void>;
+    downloadVoice(): Promise<void>;
+    removeVoice(): Promise<void>;
+    getVoiceMetadata(voiceId?: string): VoiceMetadata | undefined;
+    registerTextTransformer(transformer: TextTransformer): vscode.Disposable;
+}
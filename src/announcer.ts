@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import { PiperTTSApi, ReadTextOptions, Utterance } from './api';
+import { log } from './logger';
+
+// Indexed by vscode.DiagnosticSeverity, most severe first
+const SEVERITIES = ['error', 'warning', 'information', 'hint'];
+const SEVERITY_NAMES = ['Error', 'Warning', 'Information', 'Hint'];
+
+interface Announcement {
+    text: string;
+    options?: ReadTextOptions;
+}
+
+function getAnnounceSetting<T>(name: string, defaultValue: T): T {
+    return vscode.workspace.getConfiguration('piper-tts').get<T>(`announce.${name}`, defaultValue);
+}
+
+function getMinimumSeverity(): vscode.DiagnosticSeverity {
+    const index = SEVERITIES.indexOf(getAnnounceSetting('minimumSeverity', 'warning'));
+    return index >= 0 ? index : vscode.DiagnosticSeverity.Warning;
+}
+
+// Messages can span lines and often lack a full stop, which would run them into the next one
+function toSentence(text: string): string {
+    const sentence = text.replace(/\s+/g, ' ').trim();
+    return /[.!?]$/.test(sentence) ? sentence : `${sentence}.`;
+}
+
+// Problems touching the line that are at least as severe as minimumSeverity, most severe first
+export function getDiagnosticsOnLine(diagnostics: readonly vscode.Diagnostic[], line: number, minimumSeverity: vscode.DiagnosticSeverity): vscode.Diagnostic[] {
+    return diagnostics
+        .filter(diagnostic => diagnostic.range.start.line <= line && diagnostic.range.end.line >= line && diagnostic.severity <= minimumSeverity)
+        .sort((a, b) => a.severity - b.severity || a.range.start.character - b.range.start.character);
+}
+
+// "Line 3, 2 problems. Error from ts: Cannot find name 'x'. Warning: ..."
+export function describeDiagnostics(diagnostics: readonly vscode.Diagnostic[], line: number): string {
+    if (diagnostics.length === 0) {
+        return `No problems on line ${line + 1}.`;
+    }
+    const count = diagnostics.length === 1 ? '1 problem' : `${diagnostics.length} problems`;
+    const messages = diagnostics.map(diagnostic => {
+        const source = diagnostic.source ? ` from ${diagnostic.source}` : '';
+        return `${SEVERITY_NAMES[diagnostic.severity]}${source}: ${toSentence(diagnostic.message)}`;
+    });
+    return [`Line ${line + 1}, ${count}.`, ...messages].join('\n');
+}
+
+// Hover contents as Markdown, so the markdown preprocessing step can strip its syntax
+export function getHoverText(hovers: readonly vscode.Hover[]): string {
+    return hovers
+        .flatMap(hover => hover.contents)
+        .map(content => {
+            if (typeof content === 'string') {
+                return content;
+            }
+            if (content instanceof vscode.MarkdownString) {
+                return content.value;
+            }
+            return `\`\`\`${content.language}\n${content.value}\n\`\`\``;
+        })
+        .map(text => text.trim())
+        .filter(text => text)
+        .join('\n\n');
+}
+
+export function describeTaskEnd(task: vscode.Task, exitCode: number | undefined): string {
+    const isTest = task.group?.id === vscode.TaskGroup.Test.id;
+    if (exitCode === 0) {
+        return isTest ? `Tests passed: ${task.name}.` : `Task ${task.name} succeeded.`;
+    }
+    const code = exitCode === undefined ? '' : ` with exit code ${exitCode}`;
+    return isTest ? `Tests failed${code}: ${task.name}.` : `Task ${task.name} failed${code}.`;
+}
+
+/**
+ * Speaks the current line, its problems, the hover at the cursor and finished tasks, on demand through
+ * the read commands or automatically as enabled by the piper-tts.announce settings. Announcements go
+ * through readText, so the selected voice and text preprocessing apply.
+ */
+export class Announcer implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private timer: NodeJS.Timeout | undefined;
+    // Incremented for every scheduled announcement so a slow hover lookup cannot speak after the cursor moved
+    private generation = 0;
+    // What was last announced automatically, so resting on the same line does not repeat it
+    private lastLine: string | undefined;
+    private lastDiagnostics: string | undefined;
+    private lastHover: string | undefined;
+
+    constructor(private readonly api: Pick<PiperTTSApi, 'readText' | 'enqueue'>) {
+        this.disposables.push(
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                // Selections moved by commands, such as Read Document following the spoken sentence, are not announced
+                const byUser = event.kind === vscode.TextEditorSelectionChangeKind.Keyboard || event.kind === vscode.TextEditorSelectionChangeKind.Mouse;
+                if (byUser && event.textEditor === vscode.window.activeTextEditor) {
+                    this.schedule(event.textEditor);
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor) {
+                    this.schedule(editor);
+                }
+            }),
+            vscode.languages.onDidChangeDiagnostics(event => {
+                const editor = vscode.window.activeTextEditor;
+                if (editor && getAnnounceSetting('diagnostics', false) && event.uris.some(uri => uri.toString() === editor.document.uri.toString())) {
+                    this.schedule(editor);
+                }
+            }),
+            vscode.tasks.onDidEndTaskProcess(event => {
+                if (getAnnounceSetting('tasks', false)) {
+                    this.speak([{ text: describeTaskEnd(event.execution.task, event.exitCode) }], false).catch(error => {
+                        log.error('Failed to announce task result:', error);
+                    });
+                }
+            })
+        );
+    }
+
+    readCurrentLine(editor: vscode.TextEditor): Promise<void> {
+        return this.speak([this.getLineAnnouncement(editor.document, editor.selection.active.line)]);
+    }
+
+    readLineProblems(editor: vscode.TextEditor): Promise<void> {
+        const line = editor.selection.active.line;
+        const diagnostics = getDiagnosticsOnLine(vscode.languages.getDiagnostics(editor.document.uri), line, getMinimumSeverity());
+        return this.speak([{ text: describeDiagnostics(diagnostics, line) }]);
+    }
+
+    async readHover(editor: vscode.TextEditor): Promise<void> {
+        const text = await this.getHoverText(editor.document, editor.selection.active);
+        await this.speak([text ? { text, options: { languageId: 'markdown' } } : { text: 'No hover information.' }]);
+    }
+
+    dispose() {
+        clearTimeout(this.timer);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private getLineAnnouncement(document: vscode.TextDocument, line: number): Announcement {
+        const text = document.lineAt(line).text.trim();
+        return text ? { text, options: { languageId: document.languageId } } : { text: 'Blank line.' };
+    }
+
+    private async getHoverText(document: vscode.TextDocument, position: vscode.Position): Promise<string> {
+        const hovers = await vscode.commands.executeCommand<vscode.Hover[] | undefined>('vscode.executeHoverProvider', document.uri, position);
+        return getHoverText(hovers ?? []);
+    }
+
+    // The first announcement interrupts whatever is being read, the rest follow it
+    private async speak(announcements: Announcement[], interrupt = true): Promise<void> {
+        const utterances: Utterance[] = announcements.map(({ text, options }, index) =>
+            interrupt && index === 0 ? this.api.readText(text, options) : this.api.enqueue(text, options));
+        await Promise.all(utterances);
+    }
+
+    // Announce once the cursor has rested for piper-tts.announce.delay milliseconds
+    private schedule(editor: vscode.TextEditor) {
+        clearTimeout(this.timer);
+        const generation = ++this.generation;
+        this.timer = setTimeout(() => {
+            this.announce(editor, generation).catch(error => {
+                log.error('Failed to announce:', error);
+            });
+        }, Math.max(0, getAnnounceSetting('delay', 500)));
+    }
+
+    private async announce(editor: vscode.TextEditor, generation: number) {
+        if (editor.document.isClosed) {
+            return;
+        }
+        const document = editor.document;
+        const position = editor.selection.active;
+        const lineKey = `${document.uri.toString()}#${position.line}`;
+        const announcements: Announcement[] = [];
+
+        if (lineKey !== this.lastLine && getAnnounceSetting('currentLine', false)) {
+            announcements.push(this.getLineAnnouncement(document, position.line));
+        }
+        this.lastLine = lineKey;
+
+        if (getAnnounceSetting('diagnostics', false)) {
+            const diagnostics = getDiagnosticsOnLine(vscode.languages.getDiagnostics(document.uri), position.line, getMinimumSeverity());
+            const diagnosticsKey = `${lineKey}\n${diagnostics.map(diagnostic => diagnostic.message).join('\n')}`;
+            if (diagnostics.length > 0 && diagnosticsKey !== this.lastDiagnostics) {
+                announcements.push({ text: describeDiagnostics(diagnostics, position.line) });
+            }
+            this.lastDiagnostics = diagnosticsKey;
+        }
+
+        // Hovers are looked up once per word rather than for every cursor position
+        const word = document.getWordRangeAtPosition(position);
+        const hoverKey = word && `${document.uri.toString()}#${word.start.line}:${word.start.character}`;
+        if (hoverKey && hoverKey !== this.lastHover && getAnnounceSetting('hover', false)) {
+            this.lastHover = hoverKey;
+            const text = await this.getHoverText(document, position);
+            if (generation !== this.generation) {
+                return;
+            }
+            if (text) {
+                announcements.push({ text, options: { languageId: 'markdown' } });
+            }
+        }
+
+        if (announcements.length > 0) {
+            await this.speak(announcements);
+        }
+    }
+}
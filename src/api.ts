@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { Readable } from 'stream';
+import { AudioFileFormat, PcmFormat } from './audioUtils';
+import { VoiceMetadata } from './voiceMetadata';
+
+export { AudioFileFormat, PcmFormat, VoiceMetadata };
+
+// Version of the API below, matching the header of piper-tts.d.ts; the minor version grows with additions
+export const API_VERSION = '1.3.0';
+
+// Piper synthesis parameters, see `piper --help`
+export interface SynthesisSettings {
+    // Phoneme length multiplier; below 1 is faster, above 1 is slower
+    lengthScale?: number;
+    // Generator noise
+    noiseScale?: number;
+    // Phoneme width noise
+    noiseW?: number;
+    // Seconds of silence after each sentence
+    sentenceSilence?: number;
+}
+
+// Per-call options for reading text aloud; unset settings fall back to the piper-tts.* configuration
+export interface ReadTextOptions extends SynthesisSettings {
+    // ID of an installed voice to use instead of the piper-tts.voice setting, e.g. "en_US-amy-medium"
+    voice?: string;
+    // Speaker name from the voice's speaker_id_map or numeric speaker ID; defaults to the piper-tts.speaker setting
+    speaker?: string | number;
+    // VS Code language ID of the text, used to pick preprocessing from piper-tts.textPreprocessing; none when omitted
+    languageId?: string;
+}
+
+// Options for writing synthesized speech to disk
+export interface SynthesizeToFileOptions extends ReadTextOptions {
+    // Output format; inferred from the file extension when omitted
+    format?: AudioFileFormat;
+    // Path to the sox binary used for MP3/OGG encoding
+    soxPath?: string;
+}
+
+// Signed little-endian PCM in the given format, as produced by synthesize
+export interface SynthesizedAudio {
+    pcm: Buffer;
+    format: PcmFormat;
+}
+
+// Raw PCM as it is synthesized; destroying the stream stops synthesis
+export interface PcmAudioStream extends Readable {
+    readonly format: PcmFormat;
+}
+
+export interface TextTransformContext {
+    languageId: string;
+}
+
+// Rewrites text before it is spoken, e.g. to expand abbreviations or drop markup
+export interface TextTransformer {
+    // Name used to reference the transformer from the piper-tts.textPreprocessing setting
+    id: string;
+    // Languages the transformer always applies to, in addition to where the setting lists it
+    languages?: string[];
+    transform(text: string, context: TextTransformContext): string;
+}
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+export interface QueuedUtterance {
+    id: number;
+    text: string;
+}
+
+export interface PlaybackQueueSnapshot {
+    state: PlaybackState;
+    current?: QueuedUtterance;
+    pending: QueuedUtterance[];
+}
+
+// Offsets into the text passed to readText or enqueue, end exclusive
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * One readText or enqueue call. Resolves when all of its text has been read, or when it was cancelled or
+ * interrupted; rejects if synthesis or playback failed.
+ */
+export interface Utterance extends Promise<void> {
+    readonly id: number;
+    // Stop this utterance, or remove it from the queue, without affecting other speech
+    cancel(): void;
+}
+
+export interface SpeakingEvent {
+    utteranceId: number;
+    text: string;
+    // Voice the first sentence is read with
+    voice: string;
+}
+
+export interface SentenceChangeEvent {
+    utteranceId: number;
+    sentenceIndex: number;
+    text: string;
+    range: TextRange;
+    voice: string;
+}
+
+// 'cancelled' covers cancel(), stopPlayback(), clearQueue() and interruption by readText
+export type FinishReason = 'completed' | 'cancelled' | 'error';
+
+export interface FinishSpeakingEvent {
+    utteranceId: number;
+    reason: FinishReason;
+}
+
+export interface SpeechErrorEvent {
+    utteranceId: number;
+    message: string;
+}
+
+// API interface that will be exposed to other extensions. Text passed to the reading and synthesis
+// methods may be SSML wrapped in <speak>, see API_USAGE.md for the supported subset
+export interface PiperTTSApi {
+    readonly apiVersion: string;
+    // Stops whatever is playing, clears the queue and reads the text straight away
+    readText(text: string, options?: ReadTextOptions): Utterance;
+    // Adds the text to the end of the playback queue without interrupting current speech
+    enqueue(text: string, options?: ReadTextOptions): Utterance;
+    // Synthesis without playback, independent of what the user is listening to
+    synthesize(text: string, options?: ReadTextOptions): Promise<SynthesizedAudio>;
+    synthesizeStream(text: string, options?: ReadTextOptions): PcmAudioStream;
+    synthesizeToFile(text: string, uri: vscode.Uri, options?: SynthesizeToFileOptions): Promise<void>;
+    stopPlayback(): void;
+    pause(): void;
+    resume(): void;
+    skip(): void;
+    clearQueue(): void;
+    getQueue(): PlaybackQueueSnapshot;
+    readonly onDidChangeQueue: vscode.Event<PlaybackQueueSnapshot>;
+    getState(): PlaybackState;
+    // The voice being spoken, or the configured voice for the active editor when idle
+    getCurrentVoice(): string;
+    readonly onDidStartSpeaking: vscode.Event<SpeakingEvent>;
+    readonly onDidChangeSentence: vscode.Event<SentenceChangeEvent>;
+    readonly onDidFinishSpeaking: vscode.Event<FinishSpeakingEvent>;
+    readonly onDidError: vscode.Event<SpeechErrorEvent>;
+    selectVoice(): Promise<void>;
+    downloadVoice(): Promise<void>;
+    removeVoice(): Promise<void>;
+    getVoiceMetadata(voiceId?: string): VoiceMetadata | undefined;
+    registerTextTransformer(transformer: TextTransformer): vscode.Disposable;
+}
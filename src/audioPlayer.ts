@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PcmFormat } from './audioUtils';
+
+export type PlayerName = 'aplay' | 'paplay' | 'pw-play' | 'ffplay' | 'sox' | 'afplay';
+
+// Value of piper-tts.player
+export type PlayerSetting = 'auto' | PlayerName | 'custom' | 'builtin';
+
+// Replaced with the path of a WAV file for players that cannot read raw PCM from stdin
+export const WAV_FILE_PLACEHOLDER = '${file}';
+
+export interface ExternalPlayerCommand {
+    command: string;
+    args: string[];
+    // 'stdin' streams raw PCM while it is synthesized, 'wavFile' waits for synthesis and passes a WAV file
+    input: 'stdin' | 'wavFile';
+}
+
+// Plays a WAV of each sentence inside VS Code once it is synthesized, for systems without a player program
+export interface BuiltinPlayerCommand {
+    input: 'builtin';
+    // Why no external player is used, when "auto" found none
+    fallbackReason?: string;
+}
+
+export type PlayerCommand = ExternalPlayerCommand | BuiltinPlayerCommand;
+
+// Audio started by the built-in player
+export interface BuiltinPlayback {
+    // Resolves when the audio has played to the end, rejects if it could not be played
+    done: Promise<void>;
+    stop(): void;
+}
+
+interface PlayerDefinition {
+    name: PlayerName;
+    description: string;
+    // Package that provides the player, for the diagnostic shown when none is found
+    installHint: string;
+    getExecutable(extensionPath: string): string;
+    getCommand(executable: string, format: PcmFormat): ExternalPlayerCommand;
+}
+
+const PLAYERS: PlayerDefinition[] = [
+    {
+        name: 'aplay',
+        description: 'ALSA',
+        installHint: 'alsa-utils',
+        getExecutable: () => 'aplay',
+        getCommand: (command, format) => ({
+            command,
+            args: ['-q', '-r', String(format.sampleRate), '-c', String(format.channels), '-f', `S${format.bitsPerSample}_LE`, '-t', 'raw', '-'],
+            input: 'stdin'
+        })
+    },
+    {
+        name: 'paplay',
+        description: 'PulseAudio, also works with PipeWire',
+        installHint: 'pulseaudio-utils',
+        getExecutable: () => 'paplay',
+        getCommand: (command, format) => ({
+            command,
+            args: ['--raw', `--rate=${format.sampleRate}`, `--channels=${format.channels}`, `--format=s${format.bitsPerSample}le`],
+            input: 'stdin'
+        })
+    },
+    {
+        name: 'pw-play',
+        description: 'PipeWire',
+        installHint: 'pipewire-bin',
+        getExecutable: () => 'pw-play',
+        getCommand: (command, format) => ({
+            command,
+            args: ['--raw', '--rate', String(format.sampleRate), '--channels', String(format.channels), '--format', `s${format.bitsPerSample}`, '-'],
+            input: 'stdin'
+        })
+    },
+    {
+        name: 'ffplay',
+        description: 'FFmpeg',
+        installHint: 'ffmpeg',
+        getExecutable: () => 'ffplay',
+        getCommand: (command, format) => ({
+            command,
+            args: ['-nodisp', '-autoexit', '-loglevel', 'error', '-f', `s${format.bitsPerSample}le`, '-ar', String(format.sampleRate), '-ac', String(format.channels), '-'],
+            input: 'stdin'
+        })
+    },
+    {
+        name: 'sox',
+        description: 'SoX play',
+        installHint: 'sox',
+        // Windows ships with a bundled sox, other platforms use the one on PATH
+        getExecutable: (extensionPath) => os.platform() === 'win32' ? path.join(extensionPath, 'sox', 'play.exe') : 'play',
+        getCommand: (command, format) => ({
+            command,
+            args: [
+                '-q',
+                '-t', 'raw',
+                '-r', String(format.sampleRate),
+                '-b', String(format.bitsPerSample),
+                '-e', 'signed',
+                '-c', String(format.channels),
+                '-L',
+                '-',
+                'remix', '1'
+            ],
+            input: 'stdin'
+        })
+    },
+    {
+        name: 'afplay',
+        description: 'macOS, plays files only',
+        installHint: 'macOS',
+        getExecutable: () => 'afplay',
+        // afplay cannot read from stdin at all
+        getCommand: (command) => ({ command, args: [WAV_FILE_PLACEHOLDER], input: 'wavFile' })
+    }
+];
+
+// Players tried by piper-tts.player "auto", in order of preference
+const AUTO_DETECT_ORDER: Partial<Record<NodeJS.Platform, PlayerName[]>> = {
+    linux: ['aplay', 'paplay', 'pw-play', 'ffplay', 'sox'],
+    darwin: ['sox', 'ffplay', 'afplay'],
+    win32: ['sox', 'ffplay']
+};
+
+const DEFAULT_AUTO_DETECT_ORDER: PlayerName[] = ['paplay', 'pw-play', 'aplay', 'ffplay', 'sox'];
+
+export class PlayerNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlayerNotFoundError';
+    }
+}
+
+export interface PlayerStatus {
+    name: PlayerName;
+    description: string;
+    // Full path of the executable, undefined when it is not installed
+    path: string | undefined;
+}
+
+// Resolve a command to a file the way the shell would, undefined when it cannot be found
+export function findExecutable(command: string): string | undefined {
+    const extensions = os.platform() === 'win32'
+        ? ['', ...(process.env.PATHEXT || '.EXE;.CMD;.BAT;.COM').split(';').filter(Boolean)]
+        : [''];
+    const isExecutable = (file: string) => {
+        try {
+            fs.accessSync(file, os.platform() === 'win32' ? fs.constants.F_OK : fs.constants.X_OK);
+            return fs.statSync(file).isFile();
+        } catch {
+            return false;
+        }
+    };
+
+    const candidates = path.isAbsolute(command) || command.includes(path.sep)
+        ? [path.resolve(command)]
+        : (process.env.PATH || '').split(path.delimiter).filter(Boolean).map(directory => path.join(directory, command));
+    for (const candidate of candidates) {
+        for (const extension of extensions) {
+            if (isExecutable(candidate + extension)) {
+                return candidate + extension;
+            }
+        }
+    }
+    return undefined;
+}
+
+function getAutoDetectOrder(): PlayerName[] {
+    return AUTO_DETECT_ORDER[os.platform()] ?? DEFAULT_AUTO_DETECT_ORDER;
+}
+
+// Every known player in auto-detection order for this platform, with where it was found
+export function getPlayerStatus(extensionPath: string): PlayerStatus[] {
+    const order = getAutoDetectOrder();
+    const rank = (player: PlayerDefinition) => order.includes(player.name) ? order.indexOf(player.name) : order.length;
+    return [...PLAYERS]
+        .sort((a, b) => rank(a) - rank(b))
+        .map(player => ({
+            name: player.name,
+            description: player.description,
+            path: findExecutable(player.getExecutable(extensionPath))
+        }));
+}
+
+// Split a command line into arguments, honouring single and double quotes
+export function splitCommandLine(commandLine: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+    let inArgument = false;
+    for (const character of commandLine) {
+        if (quote) {
+            if (character === quote) {
+                quote = undefined;
+            } else {
+                current += character;
+            }
+        } else if (character === '"' || character === '\'') {
+            quote = character;
+            inArgument = true;
+        } else if (/\s/.test(character)) {
+            if (inArgument) {
+                args.push(current);
+                current = '';
+                inArgument = false;
+            }
+        } else {
+            current += character;
+            inArgument = true;
+        }
+    }
+    if (quote) {
+        throw new Error(`Unterminated ${quote} quote in command: ${commandLine}`);
+    }
+    if (inArgument) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * Build the player from piper-tts.playerCommand. ${sampleRate}, ${channels} and ${bitsPerSample}
+ * describe the raw PCM written to stdin; with ${file} the player gets a WAV file instead.
+ */
+export function getCustomPlayerCommand(template: string, format: PcmFormat): ExternalPlayerCommand {
+    const substitute = (arg: string) => arg
+        .replace(/\$\{sampleRate\}/g, String(format.sampleRate))
+        .replace(/\$\{channels\}/g, String(format.channels))
+        .replace(/\$\{bitsPerSample\}/g, String(format.bitsPerSample));
+    const [command, ...args] = splitCommandLine(template).map(substitute);
+    if (!command) {
+        throw new PlayerNotFoundError('piper-tts.player is set to "custom" but piper-tts.playerCommand is empty');
+    }
+    return { command, args, input: args.some(arg => arg.includes(WAV_FILE_PLACEHOLDER)) ? 'wavFile' : 'stdin' };
+}
+
+function getNotFoundMessage(extensionPath: string): string {
+    const hints = getPlayerStatus(extensionPath)
+        .map(status => PLAYERS.find(player => player.name === status.name)!)
+        .filter(player => player.name !== 'afplay' || os.platform() === 'darwin')
+        .map(player => `${player.name} (${player.installHint})`);
+    return `No audio player found. Install one of ${hints.join(', ')} to stream speech as it is synthesized, ` +
+        'or set piper-tts.player to "custom" and piper-tts.playerCommand to a command that plays audio.';
+}
+
+/**
+ * The player for piper-tts.player, detecting an installed one for "auto". When "auto" finds none, speech
+ * is played by the built-in player instead.
+ */
+export function getPlayerCommand(extensionPath: string, format: PcmFormat): PlayerCommand {
+    const config = vscode.workspace.getConfiguration('piper-tts');
+    const setting = config.get<PlayerSetting>('player', 'auto');
+
+    if (setting === 'custom') {
+        return getCustomPlayerCommand(config.get<string>('playerCommand', ''), format);
+    }
+    if (setting === 'builtin') {
+        return { input: 'builtin' };
+    }
+
+    if (setting !== 'auto') {
+        const player = PLAYERS.find(candidate => candidate.name === setting);
+        if (!player) {
+            throw new PlayerNotFoundError(`Unknown audio player "${setting}" in piper-tts.player`);
+        }
+        const executable = player.getExecutable(extensionPath);
+        const found = findExecutable(executable);
+        if (!found) {
+            throw new PlayerNotFoundError(`Audio player ${player.name} (piper-tts.player) was not found: ${executable} is not installed or not on PATH. ` +
+                `Install ${player.installHint} or set piper-tts.player to "auto".`);
+        }
+        return player.getCommand(found, format);
+    }
+
+    for (const status of getPlayerStatus(extensionPath)) {
+        if (status.path && getAutoDetectOrder().includes(status.name)) {
+            return PLAYERS.find(player => player.name === status.name)!.getCommand(status.path, format);
+        }
+    }
+    return { input: 'builtin', fallbackReason: getNotFoundMessage(extensionPath) };
+}
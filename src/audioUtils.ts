@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import { Transform } from 'stream';
+
+export type AudioFileFormat = 'wav' | 'mp3' | 'ogg';
+
+export interface PcmFormat {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+}
+
+// Piper always emits 16-bit signed little-endian mono PCM with --output-raw
+export const PIPER_PCM_CHANNELS = 1;
+export const PIPER_PCM_BITS_PER_SAMPLE = 16;
+
+export function getAudioFileFormat(filePath: string): AudioFileFormat | undefined {
+    const extension = path.extname(filePath).toLowerCase().replace('.', '');
+    switch (extension) {
+        case 'wav': return 'wav';
+        case 'mp3': return 'mp3';
+        case 'ogg': return 'ogg';
+        default: return undefined;
+    }
+}
+
+export function createWavHeader(dataLength: number, format: PcmFormat): Buffer {
+    const blockAlign = format.channels * format.bitsPerSample / 8;
+    const byteRate = format.sampleRate * blockAlign;
+    const header = Buffer.alloc(44);
+
+    // RIFF chunk descriptor
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + dataLength, 4);
+    header.write('WAVE', 8, 'ascii');
+
+    // "fmt " sub-chunk (PCM)
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(format.channels, 22);
+    header.writeUInt32LE(format.sampleRate, 24);
+    header.writeUInt32LE(byteRate, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(format.bitsPerSample, 34);
+
+    // "data" sub-chunk
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(dataLength, 40);
+
+    return header;
+}
+
+export function pcmToWav(pcm: Buffer, format: PcmFormat): Buffer {
+    return Buffer.concat([createWavHeader(pcm.length, format), pcm]);
+}
+
+// Extract the PCM samples and their format from a WAV file
+export function parseWav(wav: Buffer): { format: PcmFormat, data: Buffer } {
+    if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('Not a WAV file');
+    }
+
+    let format: PcmFormat | undefined;
+    let offset = 12;
+    while (offset + 8 <= wav.length) {
+        const chunkId = wav.toString('ascii', offset, offset + 4);
+        const chunkSize = wav.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (chunkId === 'fmt ') {
+            format = {
+                channels: wav.readUInt16LE(body + 2),
+                sampleRate: wav.readUInt32LE(body + 4),
+                bitsPerSample: wav.readUInt16LE(body + 14)
+            };
+        } else if (chunkId === 'data') {
+            if (!format) {
+                throw new Error('WAV file has no format chunk');
+            }
+            return { format, data: wav.subarray(body, Math.min(body + chunkSize, wav.length)) };
+        }
+
+        // Chunks are padded to an even size
+        offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('WAV file has no data chunk');
+}
+
+export function getSoxPath(extensionPath: string): string {
+    // Only Windows ships with a bundled sox, other platforms use the one on PATH
+    if (os.platform() === 'win32') {
+        return path.join(extensionPath, 'sox', 'sox.exe');
+    }
+    return 'sox';
+}
+
+// Encode raw PCM to a compressed format by piping it through sox
+export function encodeWithSox(soxPath: string, pcm: Buffer, format: PcmFormat, destination: string, fileFormat: AudioFileFormat): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const sox = spawn(soxPath, [
+            '-t', 'raw',
+            '-r', String(format.sampleRate),
+            '-b', String(format.bitsPerSample),
+            '-e', 'signed',
+            '-c', String(format.channels),
+            '-L',
+            '-',
+            '-t', fileFormat,
+            destination
+        ]);
+
+        let errorOutput = '';
+        sox.stderr.on('data', (data) => {
+            errorOutput += data.toString();
+        });
+
+        sox.on('error', (error) => {
+            reject(new Error(`Failed to start sox (${soxPath}): ${error.message}`));
+        });
+
+        sox.on('close', (code) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                fs.unlink(destination, () => {});
+                reject(new Error(`sox exited with code ${code}: ${errorOutput.trim()}`));
+            }
+        });
+
+        sox.stdin.on('error', () => {
+            // Reported through the close handler
+        });
+        sox.stdin.end(pcm);
+    });
+}
+
+// Scale 16-bit PCM by a volume factor, clipping at full scale; a sample split across chunks is carried over
+export function createVolumeTransform(volume: number): Transform {
+    let carry = Buffer.alloc(0);
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            const data = carry.length > 0 ? Buffer.concat([carry, chunk]) : chunk;
+            const length = data.length - data.length % 2;
+            carry = Buffer.from(data.subarray(length));
+
+            const scaled = Buffer.alloc(length);
+            for (let offset = 0; offset < length; offset += 2) {
+                const sample = Math.round(data.readInt16LE(offset) * volume);
+                scaled.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), offset);
+            }
+            callback(null, scaled);
+        }
+    });
+}
+
+// Zeroed PCM lasting the given number of seconds
+export function createSilence(seconds: number, format: PcmFormat): Buffer {
+    const blockAlign = format.channels * format.bitsPerSample / 8;
+    return Buffer.alloc(Math.max(0, Math.round(seconds * format.sampleRate)) * blockAlign);
+}
+
+// Linear interpolation between 16-bit mono samples; enough to join voices with different sample rates
+export function resamplePcm(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+    const inputSamples = Math.floor(pcm.length / 2);
+    if (fromRate === toRate || inputSamples === 0) {
+        return pcm;
+    }
+
+    const outputSamples = Math.round(inputSamples * toRate / fromRate);
+    const resampled = Buffer.alloc(outputSamples * 2);
+    for (let index = 0; index < outputSamples; index++) {
+        const position = index * fromRate / toRate;
+        const before = Math.min(Math.floor(position), inputSamples - 1);
+        const after = Math.min(before + 1, inputSamples - 1);
+        const fraction = position - before;
+        const sample = pcm.readInt16LE(before * 2) * (1 - fraction) + pcm.readInt16LE(after * 2) * fraction;
+        resampled.writeInt16LE(Math.round(sample), index * 2);
+    }
+    return resampled;
+}
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { PlaybackQueueSnapshot } from './api';
+import { PlaybackManager, UtteranceOutcome } from './playbackManager';
+import { splitSentences } from './sentenceSplitter';
+
+// Sentences queued ahead of the one being spoken, so the next one is ready when the current one ends
+const LOOKAHEAD = 2;
+
+interface ReadingSession {
+    document: vscode.TextDocument;
+    ranges: vscode.Range[];
+    texts: string[];
+    // Voice per sentence, undefined for the configured voice
+    voices: (string | undefined)[];
+    nextIndex: number;
+    // Utterance IDs in the playback queue mapped to their sentence index
+    queued: Map<number, number>;
+    highlighted?: number;
+    finished: boolean;
+    resolve(): void;
+    reject(error: unknown): void;
+}
+
+// Reads a document sentence by sentence, highlighting the sentence being spoken
+export class DocumentReader implements vscode.Disposable {
+    private session: ReadingSession | undefined;
+    private readonly decorationType = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+        borderColor: new vscode.ThemeColor('editor.findMatchHighlightBorder'),
+        borderStyle: 'solid',
+        borderWidth: '1px',
+        isWholeLine: false
+    });
+    private readonly queueListener: vscode.Disposable;
+
+    // routeVoices picks a voice for each sentence, e.g. by detecting its language
+    constructor(
+        private readonly manager: PlaybackManager,
+        private readonly routeVoices: (texts: string[], document: vscode.TextDocument) => (string | undefined)[] = texts => texts.map(() => undefined)
+    ) {
+        this.queueListener = manager.onDidChangeQueue(snapshot => this.onQueueChanged(snapshot));
+    }
+
+    // Read the document from the sentence containing the given offset to the end
+    read(document: vscode.TextDocument, fromOffset = 0): Promise<void> {
+        this.stop();
+        this.manager.stop();
+
+        const sentences = splitSentences(document.getText()).filter(sentence => sentence.end > fromOffset);
+        if (sentences.length === 0) {
+            return Promise.resolve();
+        }
+
+        const texts = sentences.map(sentence => sentence.text);
+        return new Promise((resolve, reject) => {
+            this.session = {
+                document,
+                ranges: sentences.map(sentence => new vscode.Range(document.positionAt(sentence.start), document.positionAt(sentence.end))),
+                texts,
+                voices: this.routeVoices(texts, document),
+                nextIndex: 0,
+                queued: new Map(),
+                finished: false,
+                resolve,
+                reject
+            };
+            this.fillQueue(this.session);
+        });
+    }
+
+    stop() {
+        if (this.session) {
+            this.endSession(this.session);
+        }
+    }
+
+    dispose() {
+        this.stop();
+        this.queueListener.dispose();
+        this.decorationType.dispose();
+    }
+
+    private fillQueue(session: ReadingSession) {
+        while (!session.finished && session.queued.size < LOOKAHEAD && session.nextIndex < session.texts.length) {
+            const index = session.nextIndex++;
+            const { id, done } = this.manager.queueUtterance(session.texts[index], {
+                languageId: session.document.languageId,
+                voice: session.voices[index]
+            });
+            session.queued.set(id, index);
+            done.then(
+                outcome => this.onSentenceDone(session, id, outcome),
+                error => this.endSession(session, error)
+            );
+        }
+
+        if (session.queued.size === 0) {
+            this.endSession(session);
+        } else {
+            // The queue event for a sentence that starts immediately fires before its ID is recorded
+            this.onQueueChanged(this.manager.getSnapshot());
+        }
+    }
+
+    private onSentenceDone(session: ReadingSession, id: number, outcome: UtteranceOutcome) {
+        session.queued.delete(id);
+        if (session.finished) {
+            return;
+        }
+
+        // Stopping or clearing the queue ends the reading, skipping only moves on to the next sentence
+        if (outcome === 'cancelled') {
+            this.endSession(session);
+        } else {
+            this.fillQueue(session);
+        }
+    }
+
+    private endSession(session: ReadingSession, error?: unknown) {
+        if (session.finished) {
+            return;
+        }
+        session.finished = true;
+        if (this.session === session) {
+            this.session = undefined;
+        }
+        this.setHighlight(session.document, undefined);
+
+        if (error) {
+            session.reject(error);
+        } else {
+            session.resolve();
+        }
+    }
+
+    private onQueueChanged(snapshot: PlaybackQueueSnapshot) {
+        const session = this.session;
+        if (!session || !snapshot.current) {
+            return;
+        }
+
+        const index = session.queued.get(snapshot.current.id);
+        // Only react to sentence changes so the cursor is not pulled back on unrelated queue updates
+        if (index !== undefined && index !== session.highlighted) {
+            session.highlighted = index;
+            this.setHighlight(session.document, session.ranges[index]);
+        }
+    }
+
+    private setHighlight(document: vscode.TextDocument, range: vscode.Range | undefined) {
+        const highlight = vscode.workspace.getConfiguration('piper-tts').get<boolean>('highlightCurrentSentence', true);
+
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document !== document) {
+                continue;
+            }
+            editor.setDecorations(this.decorationType, range && highlight ? [range] : []);
+        }
+
+        // Move the cursor along with the reading so it can be resumed from there
+        const editor = vscode.window.activeTextEditor;
+        if (range && highlight && editor?.document === document) {
+            editor.selection = new vscode.Selection(range.start, range.start);
+            editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+    }
+}
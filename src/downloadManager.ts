@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as https from 'https';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { fileURLToPath } from 'url';
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface DownloadOptions {
+    // Verified once the download completes, when known
+    expectedSize?: number;
+    expectedMd5?: string;
+    token?: vscode.CancellationToken;
+    // Bytes received so far, including any resumed part, and the total when the server reports it
+    onProgress?(received: number, total: number | undefined): void;
+    maxRedirects?: number;
+    // Abort when the connection is idle for this long
+    timeoutMs?: number;
+}
+
+export class DownloadCancelledError extends Error {
+    constructor() {
+        super('Download cancelled');
+        this.name = 'DownloadCancelledError';
+    }
+}
+
+// The downloaded file does not match the catalog, resuming it again would not help
+export class DownloadVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DownloadVerificationError';
+    }
+}
+
+export function getPartialDownloadPath(destination: string): string {
+    return `${destination}.part`;
+}
+
+function getFileSize(filePath: string): number {
+    try {
+        return fs.statSync(filePath).size;
+    } catch {
+        return 0;
+    }
+}
+
+function md5File(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('md5');
+        fs.createReadStream(filePath)
+            .on('data', data => hash.update(data))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+// Fetch a URL into a file, following a limited number of redirects and resuming from partialPath when possible
+function fetchToFile(url: string, partialPath: string, options: DownloadOptions, redirectsLeft: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            reject(new DownloadCancelledError());
+            return;
+        }
+
+        const protocol = url.startsWith('https') ? https : http;
+        const offset = getFileSize(partialPath);
+        const headers: http.OutgoingHttpHeaders = offset > 0 ? { Range: `bytes=${offset}-` } : {};
+
+        let settled = false;
+        const settle = (error?: unknown) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            cancellationListener?.dispose();
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        const request = protocol.get(url, { headers }, (response) => {
+            const statusCode = response.statusCode || 0;
+
+            if ([301, 302, 303, 307, 308].includes(statusCode) && response.headers.location) {
+                response.resume();
+                if (redirectsLeft <= 0) {
+                    settle(new Error(`Too many redirects while downloading ${url}`));
+                    return;
+                }
+                const redirectUrl = new URL(response.headers.location, url).toString();
+                fetchToFile(redirectUrl, partialPath, options, redirectsLeft - 1).then(() => settle(), settle);
+                return;
+            }
+
+            // The partial file already holds everything the server has
+            if (statusCode === 416 && offset > 0) {
+                response.resume();
+                settle();
+                return;
+            }
+
+            if (statusCode !== 200 && statusCode !== 206) {
+                response.resume();
+                settle(new Error(`Failed to download file: ${statusCode} ${response.statusMessage}`));
+                return;
+            }
+
+            // Servers that ignore the Range header send the whole file again
+            const resuming = statusCode === 206;
+            let received = resuming ? offset : 0;
+            const contentLength = Number(response.headers['content-length']);
+            const total = isFinite(contentLength) && contentLength > 0 ? received + contentLength : options.expectedSize;
+
+            const file = fs.createWriteStream(partialPath, { flags: resuming ? 'a' : 'w' });
+
+            response.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                options.onProgress?.(received, total);
+            });
+
+            response.on('aborted', () => {
+                file.destroy();
+                settle(new Error('Connection closed before the download finished'));
+            });
+
+            file.on('error', (error) => {
+                request.destroy();
+                settle(error);
+            });
+
+            file.on('finish', () => {
+                if (total !== undefined && received < total) {
+                    settle(new Error(`Download incomplete: received ${received} of ${total} bytes`));
+                } else {
+                    settle();
+                }
+            });
+
+            response.pipe(file);
+        });
+
+        request.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+            request.destroy(new Error(`Download timed out: no data received for ${(options.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 1000} seconds`));
+        });
+
+        request.on('error', (error) => settle(options.token?.isCancellationRequested ? new DownloadCancelledError() : error));
+
+        const cancellationListener = options.token?.onCancellationRequested(() => {
+            request.destroy();
+            settle(new DownloadCancelledError());
+        });
+    });
+}
+
+// Local mirrors are copied, there is nothing to resume
+function copyLocalFile(url: string, partialPath: string, options: DownloadOptions): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (options.token?.isCancellationRequested) {
+            reject(new DownloadCancelledError());
+            return;
+        }
+
+        const sourcePath = fileURLToPath(url);
+        let total: number;
+        try {
+            total = fs.statSync(sourcePath).size;
+        } catch {
+            reject(new Error(`File not found: ${sourcePath}`));
+            return;
+        }
+
+        const input = fs.createReadStream(sourcePath);
+        const output = fs.createWriteStream(partialPath);
+        let received = 0;
+        let settled = false;
+        const settle = (error?: unknown) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            cancellationListener?.dispose();
+            if (error) {
+                input.destroy();
+                output.destroy();
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        input.on('data', (chunk: string | Buffer) => {
+            received += chunk.length;
+            options.onProgress?.(received, total);
+        });
+        input.on('error', settle);
+        output.on('error', settle);
+        output.on('finish', () => settle());
+
+        const cancellationListener = options.token?.onCancellationRequested(() => settle(new DownloadCancelledError()));
+
+        input.pipe(output);
+    });
+}
+
+async function verifyDownload(filePath: string, options: DownloadOptions) {
+    const size = getFileSize(filePath);
+    if (size === 0) {
+        throw new DownloadVerificationError(`Downloaded file is empty: ${filePath}`);
+    }
+    if (options.expectedSize !== undefined && size !== options.expectedSize) {
+        throw new DownloadVerificationError(`Downloaded file has the wrong size: expected ${options.expectedSize} bytes, got ${size}`);
+    }
+    if (options.expectedMd5) {
+        const md5 = await md5File(filePath);
+        if (md5.toLowerCase() !== options.expectedMd5.toLowerCase()) {
+            throw new DownloadVerificationError(`Downloaded file is corrupt: MD5 ${md5} does not match ${options.expectedMd5}`);
+        }
+    }
+}
+
+/**
+ * Download a file, or copy a `file:` URL, to `destination` via a `.part` file that is only renamed once the download has been
+ * verified. Interrupted downloads keep the `.part` file and resume from it next time; cancelled or
+ * corrupt downloads delete it.
+ */
+export async function downloadFile(url: string, destination: string, options: DownloadOptions = {}): Promise<void> {
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    const partialPath = getPartialDownloadPath(destination);
+
+    // A partial file bigger than the expected size belongs to a different version of the file
+    if (options.expectedSize !== undefined && getFileSize(partialPath) > options.expectedSize) {
+        fs.rmSync(partialPath, { force: true });
+    }
+
+    try {
+        if (url.startsWith('file:')) {
+            await copyLocalFile(url, partialPath, options);
+        } else {
+            await fetchToFile(url, partialPath, options, options.maxRedirects ?? DEFAULT_MAX_REDIRECTS);
+        }
+        await verifyDownload(partialPath, options);
+    } catch (error) {
+        if (error instanceof DownloadCancelledError || error instanceof DownloadVerificationError) {
+            fs.rmSync(partialPath, { force: true });
+        }
+        throw error;
+    }
+
+    fs.rmSync(destination, { force: true });
+    fs.renameSync(partialPath, destination);
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -3,456 +3,1410 @@ import * as os from 'os';
 import * as path from 'path';
 import { spawn } from 'child_process';
 import * as fs from 'fs';
-import * as https from 'https';
-import * as http from 'http';
+import { PassThrough } from 'stream';
 import { fixSymlinks } from './symlinkUtils';
+import { AudioFileFormat, PcmFormat, PIPER_PCM_BITS_PER_SAMPLE, PIPER_PCM_CHANNELS, createSilence, createVolumeTransform, encodeWithSox, getAudioFileFormat, getSoxPath, pcmToWav, resamplePcm } from './audioUtils';
+import { PlayerNotFoundError, PlayerSetting, getPlayerCommand, getPlayerStatus } from './audioPlayer';
+import { PcmStream, PlaybackManager, SpeechOptions } from './playbackManager';
+import { WebviewPlayer } from './webviewPlayer';
+import { createPlaybackStatusBarItem } from './statusBar';
+import { DocumentReader } from './documentReader';
+import { Announcer } from './announcer';
+import { TextPreprocessor } from './textPreprocessing';
+import { LEXICON_FILE_NAME, LexiconEntry, LexiconLocation, PronunciationLexicon } from './pronunciationLexicon';
+import { PiperPcmStream, PiperWorkerPool, appendStderr, createPiperExitError } from './piperWorker';
+import { PiperExecutable, PiperNotFoundError, assertPiperInstalled, describePiperExecutable, getBundledPiperPath, getPiperCommandArgs, isPiperInstalled, resolvePiperExecutable, validatePiperSettings } from './piperBinary';
+import { InstalledVoice, VoiceStore } from './voiceStore';
+import { CATALOG_CACHE_FILE_NAME, CatalogVoice, VoiceCatalog } from './voiceCatalog';
+import { VoiceGallery } from './voiceGallery';
+import { VoiceTreeItem, VoiceTreeProvider } from './voiceTree';
+import { detectSentenceLanguages } from './languageDetector';
+import { splitSentences } from './sentenceSplitter';
+import { UtteranceSentence, UtteranceTracker } from './utteranceTracker';
+import { isSsml, parseSsml } from './ssml';
+import { NARRATION_MANIFEST_FILE_NAME, PLAYLIST_FILE_NAME, ResolvedChapter, renderNarrationProject } from './narrationProject';
+import { SYNTHESIS_CACHE_DIRECTORY_NAME, SynthesisCache, SynthesisCacheKey } from './synthesisCache';
+import { DEFAULT_VOICE, SettingsTarget, getEffectiveSettingsTarget, getPiperConfiguration, pickSettingsTarget, removeVoiceReferences, updateSetting } from './voiceSettings';
+import { DownloadCancelledError, downloadFile, formatBytes } from './downloadManager';
+import { API_VERSION, PcmAudioStream, PiperTTSApi, ReadTextOptions, SynthesisSettings, SynthesizedAudio, SynthesizeToFileOptions, TextRange, TextTransformer, Utterance } from './api';
+import { VoiceMetadata, clearVoiceMetadataCache, getVoiceConfigPath, getVoiceDetail, getSpeakerNames, getVoiceLabel, readVoiceMetadata, resolveSpeakerId } from './voiceMetadata';
+import { disposeLogChannel, getLogChannel, log } from './logger';
+import { HealthCheckEnvironment, formatHealthReport, runHealthCheck } from './healthCheck';
 
-let piperProcess: ReturnType<typeof spawn> | undefined;
-let playerProcess: ReturnType<typeof spawn> | undefined;
+let playbackManager: PlaybackManager | undefined;
+const textPreprocessor = new TextPreprocessor();
+let pronunciationLexicon: PronunciationLexicon | undefined;
+let piperWorkerPool: PiperWorkerPool | undefined;
+let voiceStore: VoiceStore | undefined;
+let voiceCatalog: VoiceCatalog | undefined;
+let synthesisCache: SynthesisCache | undefined;
 
-function getAvailableVoices(context: vscode.ExtensionContext): string[] {
-    const parentDir = path.resolve(context.extensionUri.fsPath, '');
-    const voicesDir = path.join(parentDir, 'voices');
-    
-    try {
-        const files = fs.readdirSync(voicesDir);
-        return files
-            .filter(file => file.endsWith('.onnx'))
-            .map(file => path.basename(file, '.onnx'));
-    } catch (error) {
-        console.error('Error reading voices directory:', error);
-        return [];
+function getVoiceStore(context: vscode.ExtensionContext): VoiceStore {
+    if (!voiceStore) {
+        voiceStore = new VoiceStore(context.extensionUri.fsPath, context.globalStorageUri.fsPath);
     }
+    return voiceStore;
 }
 
-function getVoiceLabel(voice: string): string {
-    // Convert the voice ID to a more readable format
-    const parts = voice.split('-');
-    const locale = parts[0].replace('_', ' ');
-    const name = parts[1].replace(/_/g, ' ');
-    const quality = parts[2] || '';
-    return `${locale} - ${name} (${quality})`;
+function getAvailableVoices(context: vscode.ExtensionContext): InstalledVoice[] {
+    return getVoiceStore(context).getVoices();
 }
 
-// Helper function to download a file from a URL
-function downloadFile(url: string, destination: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const protocol = url.startsWith('https') ? https : http;
-        
-        // Make sure the destination directory exists
-        const destDir = path.dirname(destination);
-        if (!fs.existsSync(destDir)) {
-            fs.mkdirSync(destDir, { recursive: true });
+interface VoiceQuickPickItem extends vscode.QuickPickItem {
+    description: string;
+}
+
+function getVoiceQuickPickItems(voices: InstalledVoice[]): VoiceQuickPickItem[] {
+    return voices.map(voice => {
+        const metadata = readVoiceMetadata(voice.modelPath);
+        const detail = getVoiceDetail(metadata);
+        return {
+            label: getVoiceLabel(metadata),
+            description: voice.id,
+            // Voices from piper-tts.voiceDirectories show where they come from
+            detail: voice.source === 'custom' ? `${detail} · ${path.dirname(voice.modelPath)}` : detail
+        };
+    });
+}
+
+function getVoiceCatalog(context: vscode.ExtensionContext): VoiceCatalog {
+    if (!voiceCatalog) {
+        voiceCatalog = new VoiceCatalog(
+            path.join(context.extensionUri.fsPath, 'voices', 'voices.json'),
+            path.join(context.globalStorageUri.fsPath, CATALOG_CACHE_FILE_NAME)
+        );
+    }
+    return voiceCatalog;
+}
+
+function getCatalogVoiceDetail(voice: CatalogVoice, installed: boolean): string {
+    const details = [voice.languageName];
+    if (voice.modelSize !== undefined) {
+        details.push(formatBytes(voice.modelSize));
+    }
+    if (voice.numSpeakers !== undefined && voice.numSpeakers > 1) {
+        details.push(`${voice.numSpeakers} speakers`);
+    }
+    if (installed) {
+        details.push('Installed');
+    }
+    return details.join(' · ');
+}
+
+// Pick a language, then one of its voices and qualities
+async function pickCatalogVoice(context: vscode.ExtensionContext): Promise<CatalogVoice | undefined> {
+    const catalog = getVoiceCatalog(context);
+    catalog.refreshIfStale();
+
+    const voices = catalog.getVoices();
+    if (voices.length === 0) {
+        throw new Error('The voice catalog is empty, run "Piper TTS: Refresh Voice Catalog"');
+    }
+    const installed = new Set(getAvailableVoices(context).map(voice => voice.id));
+
+    const languages = new Map<string, CatalogVoice[]>();
+    for (const voice of voices) {
+        languages.set(voice.languageCode, [...(languages.get(voice.languageCode) || []), voice]);
+    }
+
+    const languageItems = [...languages.entries()].map(([code, languageVoices]) => {
+        const installedCount = languageVoices.filter(voice => installed.has(voice.id)).length;
+        return {
+            label: languageVoices[0].languageName,
+            description: code,
+            detail: `${languageVoices.length} voice${languageVoices.length === 1 ? '' : 's'}${installedCount ? `, ${installedCount} installed` : ''}`
+        };
+    }).sort((a, b) => a.label.localeCompare(b.label));
+
+    const language = await vscode.window.showQuickPick(languageItems, {
+        placeHolder: 'Select a language',
+        matchOnDescription: true
+    });
+    if (!language) {
+        return undefined;
+    }
+
+    const voiceItems = languages.get(language.description)!.map(voice => ({
+        label: `${installed.has(voice.id) ? '$(check) ' : ''}${voice.name}`,
+        description: voice.quality,
+        detail: getCatalogVoiceDetail(voice, installed.has(voice.id)),
+        voice
+    }));
+
+    const selection = await vscode.window.showQuickPick(voiceItems, {
+        placeHolder: `Select a voice for ${language.label}`,
+        matchOnDescription: true
+    });
+    return selection?.voice;
+}
+
+async function downloadVoice(context: vscode.ExtensionContext): Promise<void> {
+    try {
+        const voice = await pickCatalogVoice(context);
+        if (voice) {
+            await installVoice(context, voice);
         }
+    } catch (error) {
+        log.error('Error downloading voice:', error);
+        vscode.window.showErrorMessage('Failed to download voice: ' + (error instanceof Error ? error.message : String(error)));
+    }
+}
+
+// Download a voice from the catalog and make it the current voice; resolves to false if it was not installed
+async function installVoice(context: vscode.ExtensionContext, voice: CatalogVoice): Promise<boolean> {
+    const voiceId = voice.id;
+    try {
+        // Downloads go to global storage, which survives extension updates
+        const voicesDir = getVoiceStore(context).downloadDirectory;
         
-        // If the file already exists, delete it first to avoid any issues
-        if (fs.existsSync(destination)) {
-            try {
-                fs.unlinkSync(destination);
-            } catch (err) {
-                console.error(`Error removing existing file ${destination}:`, err);
-            }
+        // Ensure voices directory exists
+        if (!fs.existsSync(voicesDir)) {
+            fs.mkdirSync(voicesDir, { recursive: true });
         }
         
-        const file = fs.createWriteStream(destination, { flags: 'wx' });
+        const modelPath = path.join(voicesDir, `${voiceId}.onnx`);
+        const configPath = path.join(voicesDir, `${voiceId}.onnx.json`);
         
-        const request = protocol.get(url, (response) => {
-            if (response.statusCode === 302 || response.statusCode === 301 || response.statusCode === 307) {
-                // Handle redirects
-                if (response.headers.location) {
-                    const redirectUrl = new URL(response.headers.location, url).toString();
-                    // Close the current file before starting a new download
-                    file.close();
-                    downloadFile(redirectUrl, destination)
-                        .then(resolve)
-                        .catch(reject);
-                    return;
-                }
-            }
-            
-            if (response.statusCode !== 200) {
-                file.close();
-                fs.unlink(destination, () => {});
-                reject(new Error(`Failed to download file: ${response.statusCode} ${response.statusMessage}`));
-                return;
-            }
-            
-            response.pipe(file);
-            
-            file.on('finish', () => {
-                // Explicitly flush to disk before closing
-                file.end(() => {
-                    file.close();
-                    
-                    // Verify the file exists and has content
-                    try {
-                        const stats = fs.statSync(destination);
-                        if (stats.size === 0) {
-                            reject(new Error(`Downloaded file is empty: ${destination}`));
+        // A persistent piper process keeps the model open, which blocks overwriting it on Windows.
+        // Speech with the voice is stopped first, so its jobs are not failed by the worker shutting down
+        if (piperWorkerPool?.hasModel(modelPath)) {
+            stopCurrentPlayback();
+            piperWorkerPool.releaseModel(modelPath);
+        }
+
+        // Show progress while downloading
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Downloading ${voiceId}`,
+                cancellable: true
+            }, async (progress, token) => {
+                // The config is small, fetch it first so the model's progress covers the whole bar
+                progress.report({ message: 'Downloading config file...' });
+                await downloadFile(voice.configUrl, configPath, {
+                    token,
+                    expectedSize: voice.configSize,
+                    expectedMd5: voice.configMd5
+                });
+
+                let reported = 0;
+                await downloadFile(voice.modelUrl, modelPath, {
+                    token,
+                    expectedSize: voice.modelSize,
+                    expectedMd5: voice.modelMd5,
+                    onProgress: (received, total) => {
+                        if (total === undefined) {
+                            progress.report({ message: `${formatBytes(received)} downloaded` });
                             return;
                         }
-                        resolve();
-                    } catch (err) {
-                        const errorMessage = err instanceof Error ? err.message : String(err);
-                        reject(new Error(`Error verifying downloaded file: ${errorMessage}`));
+                        const percent = Math.min(100, received / total * 100);
+                        progress.report({
+                            message: `${formatBytes(received)} of ${formatBytes(total)}`,
+                            increment: percent - reported
+                        });
+                        reported = percent;
                     }
                 });
+
+                progress.report({ message: 'Download complete' });
             });
-        });
+        } catch (error) {
+            // Without a model the config on its own is just clutter
+            if (!fs.existsSync(modelPath)) {
+                fs.rmSync(configPath, { force: true });
+            }
+            if (error instanceof DownloadCancelledError) {
+                vscode.window.showInformationMessage(`Download of ${voiceId} was cancelled.`);
+                return false;
+            }
+            throw error;
+        }
         
-        request.on('error', (err) => {
-            file.close();
-            fs.unlink(destination, () => {});
-            reject(err);
-        });
+        // Speech cached for an earlier download of the voice may no longer match it
+        synthesisCache?.invalidateVoice(voiceId);
+        getVoiceStore(context).notifyChanged();
+
+        // Make sure any existing processes are stopped
+        stopCurrentPlayback();
         
-        file.on('error', (err) => {
-            file.close();
-            fs.unlink(destination, () => {});
-            reject(err);
+        // Add a small delay to ensure files are fully written and accessible
+        await new Promise(resolve => setTimeout(resolve, 500));
+        
+        // Verify the downloaded files exist and are accessible
+        if (!fs.existsSync(modelPath) || !fs.existsSync(configPath)) {
+            throw new Error('Downloaded voice files not found or not accessible');
+        }
+        
+        // Ensure file handles are properly closed by forcing a garbage collection
+        if (global.gc) {
+            global.gc();
+        }
+        
+        // Set the downloaded voice as the current voice, unless the user dismisses the scope picker
+        if (await setCurrentVoice(context, voiceId)) {
+            vscode.window.showInformationMessage(`Voice ${voiceId} has been downloaded and set as the current voice.`);
+        } else {
+            vscode.window.showInformationMessage(`Voice ${voiceId} has been downloaded.`);
+        }
+        return true;
+    } catch (error) {
+        log.error('Error downloading voice:', error);
+        vscode.window.showErrorMessage('Failed to download voice: ' + (error instanceof Error ? error.message : String(error)));
+        return false;
+    }
+}
+
+async function selectVoice(context: vscode.ExtensionContext) {
+    const voices = getAvailableVoices(context);
+    
+    if (voices.length === 0) {
+        vscode.window.showErrorMessage('No voice models found in the voice directories');
+        return;
+    }
+
+    const items = getVoiceQuickPickItems(voices);
+
+    const selection = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select a voice for text-to-speech',
+    });
+
+    if (selection) {
+        await setCurrentVoice(context, selection.description);
+    }
+}
+
+// Ask where to save the voice, then save it there; resolves to false if the user cancelled
+async function setCurrentVoice(context: vscode.ExtensionContext, voiceId: string): Promise<boolean> {
+    const target = await pickSettingsTarget(`Where should ${voiceId} be used?`);
+    if (!target) {
+        return false;
+    }
+    await updateSetting(target, 'voice', voiceId);
+
+    // Multi-speaker voices need a speaker as well, single-speaker voices must not keep a stale one
+    const metadata = readVoiceMetadata(getVoiceModelPath(context, voiceId));
+    if (metadata.numSpeakers > 1) {
+        await selectSpeaker(metadata, target);
+    } else {
+        await updateSetting(target, 'speaker', undefined);
+    }
+    return true;
+}
+
+function getLanguageFamily(context: vscode.ExtensionContext, voiceId: string): string {
+    const language = readVoiceMetadata(getVoiceModelPath(context, voiceId)).language;
+    return (language.family || language.code || voiceId).split(/[_-]/)[0].toLowerCase();
+}
+
+// piper-tts.voicesByLanguage by language family; keys may be families ("de") or locales ("de_DE")
+function getVoicesByLanguage(context: vscode.ExtensionContext, languageId?: string): Map<string, string> {
+    const configured = getPiperConfiguration(languageId).get<Record<string, string>>('voicesByLanguage') || {};
+    const voices = new Map<string, string>();
+    for (const [language, voiceId] of Object.entries(configured)) {
+        if (typeof voiceId !== 'string' || !voiceId) {
+            continue;
+        }
+        if (!getVoiceStore(context).findVoice(voiceId)) {
+            log.warn(`Voice ${voiceId} configured for ${language} is not installed`);
+            continue;
+        }
+        voices.set(language.split(/[_-]/)[0].toLowerCase(), voiceId);
+    }
+    return voices;
+}
+
+interface LanguageRouting {
+    voices: Map<string, string>;
+    defaultLanguage: string;
+    candidates: string[];
+}
+
+// Undefined when no per-language voices are configured
+function getLanguageRouting(context: vscode.ExtensionContext, languageId?: string): LanguageRouting | undefined {
+    const voices = getVoicesByLanguage(context, languageId);
+    if (voices.size === 0) {
+        return undefined;
+    }
+    // Only languages that have a voice are worth detecting
+    const defaultLanguage = getLanguageFamily(context, getCurrentVoiceId(languageId));
+    return { voices, defaultLanguage, candidates: [...new Set([...voices.keys(), defaultLanguage])] };
+}
+
+// Voice per sentence from the detected language of each, undefined where the configured voice applies
+function routeSentencesByLanguage(context: vscode.ExtensionContext, sentences: string[], languageId?: string): (string | undefined)[] {
+    const routing = getLanguageRouting(context, languageId);
+    if (!routing) {
+        return sentences.map(() => undefined);
+    }
+    return detectSentenceLanguages(sentences, routing.candidates, routing.defaultLanguage)
+        .map(language => language ? routing.voices.get(language) : undefined);
+}
+
+// Text read with one voice and rate; SSML is split into several wherever these change
+interface SpeechSpan {
+    text: string;
+    options: SpeechOptions;
+    // Whether the voice is fixed by the caller or a <voice> element, so language routing does not apply
+    voiceFixed: boolean;
+    getSourceRange(start: number, end: number): TextRange;
+}
+
+// The length_scale that speaks the voice of the options at rate times its usual speed
+function getRateLengthScale(context: vscode.ExtensionContext, rate: number, options: ReadTextOptions): number {
+    const voicePath = options.voice ? getVoiceModelPath(context, options.voice) : getVoicePath(context, options.languageId);
+    const lengthScale = getSynthesisSettings(options, options.languageId).lengthScale
+        ?? (fs.existsSync(voicePath) ? readVoiceMetadata(voicePath).inference.lengthScale : undefined)
+        ?? 1;
+    // A faster rate means a shorter length_scale
+    return Math.min(MAX_LENGTH_SCALE, Math.max(MIN_LENGTH_SCALE, Math.round(lengthScale / rate * 1000) / 1000));
+}
+
+// Plain text is a single span, SSML (text wrapped in <speak>) is compiled into spans with their own settings
+function getSpeechSpans(context: vscode.ExtensionContext, text: string, options: ReadTextOptions = {}): SpeechSpan[] {
+    if (!isSsml(text)) {
+        return [{ text, options, voiceFixed: !!options.voice, getSourceRange: (start, end) => ({ start, end }) }];
+    }
+
+    return parseSsml(text).map(span => {
+        const spanOptions: SpeechOptions = { ...options, pauseBefore: span.pauseBefore, pauseAfter: span.pauseAfter };
+        if (span.voice && span.voice !== options.voice) {
+            // The caller's speaker belongs to their voice
+            spanOptions.voice = span.voice;
+            delete spanOptions.speaker;
+        }
+        if (span.rate !== 1) {
+            spanOptions.lengthScale = getRateLengthScale(context, span.rate, { ...options, voice: spanOptions.voice });
+        }
+        return { text: span.text, options: spanOptions, voiceFixed: !!spanOptions.voice, getSourceRange: span.getSourceRange };
+    });
+}
+
+function speak(context: vscode.ExtensionContext, tracker: UtteranceTracker, manager: PlaybackManager, text: string, options: ReadTextOptions = {}, interrupt = false): Utterance {
+    let spans: SpeechSpan[];
+    try {
+        spans = getSpeechSpans(context, text, options);
+    } catch (error) {
+        // Invalid SSML rejects the utterance instead of throwing
+        return tracker.reject(text, error);
+    }
+
+    const sentences: UtteranceSentence[] = [];
+    for (const span of spans) {
+        const found = splitSentences(span.text);
+        const spanSentences = found.length > 0 ? found : [{ text: span.text, start: 0, end: span.text.length }];
+        const voices = span.voiceFixed
+            ? spanSentences.map(() => span.options.voice)
+            : routeSentencesByLanguage(context, spanSentences.map(sentence => sentence.text), options.languageId);
+
+        spanSentences.forEach((sentence, index) => {
+            const { pauseBefore, pauseAfter, ...sentenceOptions }: SpeechOptions = voices[index] ? { ...span.options, voice: voices[index] } : span.options;
+            // The span's pauses go around its first and last sentence
+            sentences.push({
+                text: sentence.text,
+                range: span.getSourceRange(sentence.start, sentence.end),
+                options: {
+                    ...sentenceOptions,
+                    ...(index === 0 && pauseBefore ? { pauseBefore } : {}),
+                    ...(index === spanSentences.length - 1 && pauseAfter ? { pauseAfter } : {})
+                },
+                voice: voices[index] ?? getCurrentVoiceId(options.languageId)
+            });
+        });
+    }
+
+    if (interrupt) {
+        manager.stop();
+    }
+    return tracker.speak(text, sentences);
+}
+
+// Short greetings per language family for previews, English is used for the rest
+const PREVIEW_SENTENCES: Record<string, string> = {
+    de: 'Hallo, so klingt diese Stimme.',
+    en: 'Hello, this is how this voice sounds.',
+    es: 'Hola, así suena esta voz.',
+    fr: 'Bonjour, voici comment sonne cette voix.',
+    it: 'Ciao, ecco come suona questa voce.',
+    nl: 'Hallo, zo klinkt deze stem.',
+    pl: 'Cześć, tak brzmi ten głos.',
+    pt: 'Olá, é assim que esta voz soa.',
+    ru: 'Привет, так звучит этот голос.',
+    uk: 'Привіт, так звучить цей голос.'
+};
+
+async function previewVoice(context: vscode.ExtensionContext, voiceId: string) {
+    const family = getLanguageFamily(context, voiceId);
+    await playbackManager?.playNow(PREVIEW_SENTENCES[family] ?? PREVIEW_SENTENCES.en, { voice: voiceId });
+}
+
+async function selectSpeaker(metadata: VoiceMetadata, target: SettingsTarget) {
+    const currentSpeaker = vscode.workspace.getConfiguration('piper-tts', target.scope).get<string>('speaker');
+    const items = getSpeakerNames(metadata).map(speaker => ({
+        label: speaker.name,
+        description: speaker.name === currentSpeaker ? `#${speaker.id} (current)` : `#${speaker.id}`
+    }));
+
+    const selection = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select a speaker for ${metadata.id} (${metadata.numSpeakers} available)`,
+    });
+
+    // Dismissing the picker leaves the voice's default speaker in place
+    await updateSetting(target, 'speaker', selection ? selection.label : undefined);
+}
+
+// Settings that choose which Piper is run
+const PIPER_SETTINGS = ['piperPath', 'piperCommand', 'espeakDataPath'];
+
+function getPiperExecutable(context: vscode.ExtensionContext): PiperExecutable {
+    const piper = resolvePiperExecutable(context.extensionUri.fsPath);
+    log.debug('Piper:', describePiperExecutable(piper));
+    return piper;
+}
+
+// Start the configured Piper to report its version, or what is wrong with the settings. Quiet checks only report problems
+async function checkPiperSettings(context: vscode.ExtensionContext, quiet: boolean) {
+    try {
+        const { executable, version, problems } = await validatePiperSettings(context.extensionUri.fsPath);
+        log.info(`Using Piper ${version ?? 'of unknown version'}: ${describePiperExecutable(executable)}`);
+        if (problems.length > 0) {
+            problems.forEach(problem => log.warn(problem));
+            const action = await vscode.window.showWarningMessage(problems.join(' '), 'Run Diagnostics');
+            if (action) {
+                vscode.commands.executeCommand('piper-tts.runDiagnostics');
+            }
+        } else if (!quiet) {
+            vscode.window.showInformationMessage(`Piper TTS now uses Piper ${version}: ${describePiperExecutable(executable)}`);
+        }
+    } catch (error) {
+        showPlaybackError(error);
+    }
+}
+
+// The voice for text in the given language, or for the active editor
+function getCurrentVoiceId(languageId?: string): string {
+    return getPiperConfiguration(languageId).get<string>('voice') || DEFAULT_VOICE;
+}
+
+function getVoiceModelPath(context: vscode.ExtensionContext, voiceId: string): string {
+    return getVoiceStore(context).getModelPath(voiceId);
+}
+
+function getVoicePath(context: vscode.ExtensionContext, languageId?: string): string {
+    const voicePath = getVoiceModelPath(context, getCurrentVoiceId(languageId));
+    log.debug('Voice path:', voicePath);
+    log.debug('Voice exists:', fs.existsSync(voicePath));
+    return voicePath;
+}
+
+// Apply piper-tts.volume to speech on its way to the player
+function withVolume(source: PcmStream): PcmStream {
+    const volume = vscode.workspace.getConfiguration('piper-tts').get<number>('volume', 100);
+    if (typeof volume !== 'number' || !isFinite(volume) || volume === 100) {
+        return source;
+    }
+    // done waits for the scaled audio, which the transform emits after the source has ended
+    const stream = source.stream.pipe(createVolumeTransform(Math.max(0, volume) / 100));
+    const streamEnded = new Promise<void>(resolve => stream.on('end', resolve));
+    const done = Promise.all([source.done, streamEnded]).then(() => {});
+    return { ...source, stream, done };
+}
+
+// Surround speech with the silence of SSML <break> elements; done waits until the silence has been read too
+function withPauses(source: PcmStream, options: SpeechOptions): PcmStream {
+    const before = createSilence(options.pauseBefore ?? 0, source.format);
+    const after = createSilence(options.pauseAfter ?? 0, source.format);
+    if (before.length === 0 && after.length === 0) {
+        return source;
+    }
+
+    const stream = new PassThrough();
+    stream.write(before);
+    source.stream.pipe(stream, { end: false });
+    const sourceEnded = new Promise<void>(resolve => source.stream.on('end', resolve));
+
+    const done = new Promise<void>((resolve, reject) => {
+        stream.on('end', resolve);
+        Promise.all([source.done, sourceEnded]).then(() => stream.end(after), error => {
+            stream.end();
+            reject(error);
+        });
+    });
+    return { ...source, stream, done };
+}
+
+async function selectPlayer(context: vscode.ExtensionContext) {
+    const config = vscode.workspace.getConfiguration('piper-tts');
+    const current = config.get<PlayerSetting>('player', 'auto');
+    const players = getPlayerStatus(context.extensionUri.fsPath);
+    const detected = players.find(player => player.path);
+
+    type PlayerQuickPickItem = vscode.QuickPickItem & { setting: PlayerSetting };
+    const items: PlayerQuickPickItem[] = [
+        {
+            label: 'Auto-detect',
+            description: detected ? `currently ${detected.name}` : 'no player found, currently the built-in player',
+            setting: 'auto'
+        },
+        ...players.map(player => ({
+            label: player.name,
+            description: player.description,
+            detail: player.path ?? 'Not installed',
+            setting: player.name
+        })),
+        {
+            label: 'Custom command',
+            description: 'piper-tts.playerCommand',
+            setting: 'custom'
+        },
+        {
+            label: 'Built-in player',
+            description: 'Plays in a tab inside VS Code, no program needed',
+            setting: 'builtin'
+        }
+    ];
+    for (const item of items) {
+        if (item.setting === current) {
+            item.label = `$(check) ${item.label}`;
+        }
+    }
+
+    const selection = await vscode.window.showQuickPick(items, { placeHolder: 'Select the program used to play speech' });
+    if (!selection) {
+        return;
+    }
+
+    if (selection.setting === 'custom') {
+        const command = await vscode.window.showInputBox({
+            prompt: 'Player command. Raw PCM is written to its stdin unless it takes ${file}, a WAV file',
+            placeHolder: 'mpv --demuxer=rawaudio --demuxer-rawaudio-rate=${sampleRate} --demuxer-rawaudio-channels=${channels} -',
+            value: config.get<string>('playerCommand', '')
+        });
+        if (command === undefined) {
+            return;
+        }
+        await config.update('playerCommand', command, vscode.ConfigurationTarget.Global);
+    }
+    await config.update('player', selection.setting, vscode.ConfigurationTarget.Global);
+}
+
+async function showCacheSize() {
+    if (!synthesisCache) {
+        return;
+    }
+    const { entries, bytes } = synthesisCache.getStats();
+    const limit = vscode.workspace.getConfiguration('piper-tts').get<number>('cacheSize', 100);
+    const message = synthesisCache.enabled
+        ? `Synthesis cache: ${entries} ${entries === 1 ? 'entry' : 'entries'}, ${formatBytes(bytes)} of ${limit} MB.`
+        : `Synthesis cache is disabled (piper-tts.cacheSize is 0) and holds ${formatBytes(bytes)}.`;
+    const action = await vscode.window.showInformationMessage(message, ...(entries > 0 ? ['Clear Cache'] : []));
+    if (action) {
+        clearSynthesisCache();
+    }
+}
+
+function clearSynthesisCache() {
+    try {
+        synthesisCache?.clear();
+        vscode.window.showInformationMessage('Synthesis cache cleared.');
+    } catch (error) {
+        vscode.window.showErrorMessage('Failed to clear synthesis cache: ' + (error instanceof Error ? error.message : String(error)));
+    }
+}
+
+// Playback errors, offering to pick another player when none could be started
+function showPlaybackError(error: unknown) {
+    const message = 'Error running text-to-speech: ' + (error instanceof Error ? error.message : String(error));
+    if (error instanceof PlayerNotFoundError) {
+        vscode.window.showErrorMessage(message, 'Select Audio Player').then(action => {
+            if (action) {
+                vscode.commands.executeCommand('piper-tts.selectPlayer');
+            }
+        });
+    } else if (error instanceof PiperNotFoundError) {
+        vscode.window.showErrorMessage(message, 'Open Settings').then(action => {
+            if (action) {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'piper-tts.piper');
+            }
+        });
+    } else {
+        log.error(message);
+        vscode.window.showErrorMessage(message, 'Run Diagnostics', 'Show Log').then(action => {
+            if (action === 'Run Diagnostics') {
+                vscode.commands.executeCommand('piper-tts.runDiagnostics');
+            } else if (action === 'Show Log') {
+                getLogChannel().show();
+            }
+        });
+    }
+}
+
+function stopCurrentPlayback() {
+    playbackManager?.stop();
+}
+
+// Model and synthesis arguments shared by one-shot and persistent piper processes; the speaker is
+// returned separately because persistent processes take it per request
+function getPiperArgs(voicePath: string, metadata: VoiceMetadata, options: ReadTextOptions): { args: string[], speakerId?: number } {
+    const args = ['--model', voicePath];
+
+    let speakerId: number | undefined;
+    if (options.speaker !== undefined) {
+        speakerId = resolveSpeakerId(metadata, options.speaker);
+    } else if (!options.voice || options.voice === getCurrentVoiceId(options.languageId)) {
+        // A speaker left over from another voice should not break playback
+        try {
+            speakerId = resolveSpeakerId(metadata, getPiperConfiguration(options.languageId).get<string>('speaker'));
+        } catch (error) {
+            log.warn('Ignoring configured speaker:', error);
+        }
+    }
+
+    // Anything left unset falls back to the inference defaults in the voice's config
+    const settings = getSynthesisSettings(options, options.languageId);
+    if (settings.lengthScale !== undefined) {
+        args.push('--length_scale', String(settings.lengthScale));
+    }
+    if (settings.noiseScale !== undefined) {
+        args.push('--noise_scale', String(settings.noiseScale));
+    }
+    if (settings.noiseW !== undefined) {
+        args.push('--noise_w', String(settings.noiseW));
+    }
+    if (settings.sentenceSilence !== undefined) {
+        args.push('--sentence_silence', String(settings.sentenceSilence));
+    }
+    return { args, speakerId };
+}
+
+function getSynthesisSettings(overrides: SynthesisSettings = {}, languageId?: string): SynthesisSettings {
+    const config = getPiperConfiguration(languageId);
+    const read = (key: keyof SynthesisSettings): number | undefined => {
+        const value = overrides[key] ?? config.get<number | null>(key);
+        return typeof value === 'number' && isFinite(value) ? value : undefined;
+    };
+
+    return {
+        lengthScale: read('lengthScale'),
+        noiseScale: read('noiseScale'),
+        noiseW: read('noiseW'),
+        sentenceSilence: read('sentenceSilence')
+    };
+}
+
+const MIN_LENGTH_SCALE = 0.25;
+const MAX_LENGTH_SCALE = 4;
+const RATE_STEP = 1.1;
+
+// Speed up or slow down speech by scaling length_scale; takes effect from the next utterance
+async function adjustSpeechRate(context: vscode.ExtensionContext, factor: number) {
+    const languageId = vscode.window.activeTextEditor?.document.languageId;
+    const voicePath = getVoicePath(context, languageId);
+    const current = getSynthesisSettings({}, languageId).lengthScale
+        ?? readVoiceMetadata(voicePath).inference.lengthScale
+        ?? 1;
+
+    // A shorter length_scale means faster speech. It is written where it is currently set, so a workspace,
+    // folder or [language] value is not left overriding the change
+    const lengthScale = Math.min(MAX_LENGTH_SCALE, Math.max(MIN_LENGTH_SCALE, Math.round(current / factor * 100) / 100));
+    await updateSetting(getEffectiveSettingsTarget('lengthScale', languageId), 'lengthScale', lengthScale);
+
+    vscode.window.setStatusBarMessage(`Piper TTS speed: ${(1 / lengthScale).toFixed(2)}x`, 3000);
+}
+
+function isPersistentProcessEnabled(): boolean {
+    return vscode.workspace.getConfiguration('piper-tts').get<boolean>('persistentProcess', true);
+}
+
+// Load the current voice into a persistent piper process before it is first needed
+function warmUpPiper(context: vscode.ExtensionContext) {
+    if (!piperWorkerPool || !isPersistentProcessEnabled()) {
+        return;
+    }
+
+    try {
+        const piper = getPiperExecutable(context);
+        const voicePath = getVoicePath(context);
+        if (!isPiperInstalled(piper) || !fs.existsSync(voicePath)) {
+            return;
+        }
+        const { args } = getPiperArgs(voicePath, readVoiceMetadata(voicePath), {});
+        piperWorkerPool.getWorker({ piper, args }).warmUp();
+    } catch (error) {
+        log.error('Error warming up Piper:', error);
+    }
+}
+
+// Start piper for the given text; the PCM it produces is streamed from its stdout. Headless synthesis
+// only uses the persistent process if it already has the voice loaded, so playback is never disturbed
+function startPiper(context: vscode.ExtensionContext, text: string, options: ReadTextOptions = {}, headless = false): PcmStream {
+    if (!text) {
+        throw new Error('No text provided');
+    }
+
+    const piper = getPiperExecutable(context);
+    const voicePath = options.voice ? getVoiceModelPath(context, options.voice) : getVoicePath(context, options.languageId);
+
+    // Verify file existence
+    assertPiperInstalled(piper);
+    if (!fs.existsSync(voicePath)) {
+        throw new Error(`Voice model not found at: ${voicePath}`);
+    }
+
+    // Verify the voice file is accessible and not locked
+    try {
+        // Try to open the file to verify it's not locked
+        const fd = fs.openSync(voicePath, 'r');
+        fs.closeSync(fd);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        throw new Error(`Voice model file is not accessible: ${errorMessage}`);
+    }
+
+    const metadata = readVoiceMetadata(voicePath);
+    const { args, speakerId } = getPiperArgs(voicePath, metadata, options);
+    const format: PcmFormat = {
+        sampleRate: metadata.sampleRate,
+        channels: PIPER_PCM_CHANNELS,
+        bitsPerSample: PIPER_PCM_BITS_PER_SAMPLE
+    };
+
+    // Lexicon substitutions run last so they are not undone by preprocessing
+    const preprocessed = options.languageId ? textPreprocessor.process(text, options.languageId) : text;
+    const input = pronunciationLexicon ? pronunciationLexicon.apply(preprocessed) : preprocessed;
+    if (!/\S/.test(input)) {
+        // Nothing is left to say once markup has been stripped, e.g. a lone code fence
+        return createBufferedPcmStream(Buffer.alloc(0), format);
+    }
+
+    const cacheKey: SynthesisCacheKey = { text: input, voicePath, args, speakerId };
+    const cached = synthesisCache?.get(cacheKey);
+    if (cached) {
+        return createBufferedPcmStream(cached.pcm, cached.format);
+    }
+    return cacheSynthesis(cacheKey, runPiper(piper, args, input, speakerId, format, headless));
+}
+
+// PCM that is already there, e.g. from the cache. Like synthesis, done resolves once all of it has been read from the stream
+function createBufferedPcmStream(pcm: Buffer, format: PcmFormat): PcmStream {
+    const stream = new PassThrough();
+    const done = new Promise<void>(resolve => stream.on('end', resolve));
+    stream.end(pcm);
+    return { format, stream, done, cancel: () => {} };
+}
+
+// Store the PCM of completed synthesis so the same text plays instantly next time
+function cacheSynthesis(key: SynthesisCacheKey, source: PiperPcmStream): PcmStream {
+    const cache = synthesisCache;
+    if (!cache?.enabled) {
+        return source;
+    }
+
+    const chunks: Buffer[] = [];
+    source.stream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+    });
+    const ended = new Promise<void>(resolve => source.stream.on('end', resolve));
+    const frameSize = source.format.channels * source.format.bitsPerSample / 8;
+    Promise.all([source.completed, ended]).then(([completed]) => {
+        const pcm = Buffer.concat(chunks);
+        // Audio of a cancelled, killed or crashed Piper is cut short and must not be replayed
+        if (completed && pcm.length % frameSize === 0) {
+            cache.put(key, pcm, source.format).catch(error => {
+                log.warn('Could not cache synthesized speech:', error);
+            });
+        }
+    }, () => {});
+
+    return source;
+}
+
+function runPiper(executable: PiperExecutable, args: string[], input: string, speakerId: number | undefined, format: PcmFormat, headless: boolean): PiperPcmStream {
+    const workerOptions = { piper: executable, args };
+    if (piperWorkerPool && isPersistentProcessEnabled() && (!headless || piperWorkerPool.hasWorker(workerOptions))) {
+        return piperWorkerPool.synthesize(workerOptions, input, speakerId, format);
+    }
+
+    const piperArgs = [...args, '--output-raw'];
+    if (speakerId !== undefined) {
+        piperArgs.push('--speaker', String(speakerId));
+    }
+
+    // Create piper process with full path
+    const piper = spawn(executable.command, getPiperCommandArgs(executable, piperArgs), {
+        cwd: executable.cwd,
+        env: { ...process.env },
+        windowsHide: false
+    });
+
+    let stderr = '';
+    piper.stderr.on('data', (data) => {
+        log.debug('Piper error output:', data.toString());
+        stderr = appendStderr(stderr, data.toString());
+    });
+
+    piper.stdin.on('error', (error) => {
+        log.error('Piper input error:', error);
+    });
+
+    let exitCode: number | null = null;
+    const done = new Promise<void>((resolve, reject) => {
+        piper.on('error', (error) => {
+            log.error('Piper error:', error);
+            reject(error);
+        });
+
+        piper.on('close', (code) => {
+            exitCode = code;
+            log.debug('Piper process exited with code:', code);
+            // Only reject if the process wasn't killed intentionally
+            if (code !== 0 && code !== null) {
+                const error = createPiperExitError(code, stderr);
+                log.error(error.message);
+                reject(error);
+            } else {
+                resolve();
+            }
+        });
+    });
+
+    piper.stdin.write(input);
+    piper.stdin.end();
+
+    return {
+        format,
+        stream: piper.stdout,
+        done,
+        // A killed process closes with a null exit code
+        completed: done.then(() => exitCode === 0, () => false),
+        cancel: () => {
+            if (piper.exitCode === null && !piper.killed) {
+                log.debug('Stopping Piper process...');
+                piper.kill();
+            }
+        }
+    };
+}
+
+// Synthesize plain text or SSML without playing it. SSML spans are synthesized one after another and
+// joined in the format of the first, so voices with different sample rates can be mixed
+function startHeadlessSpeech(context: vscode.ExtensionContext, text: string, options: ReadTextOptions = {}): PcmStream {
+    const spans = getSpeechSpans(context, text, options);
+    if (spans.length === 0) {
+        throw new Error('No text provided');
+    }
+    const startSpan = (span: SpeechSpan) => withPauses(startPiper(context, span.text, span.options, true), span.options);
+    if (spans.length === 1) {
+        return startSpan(spans[0]);
+    }
+
+    const first = startSpan(spans[0]);
+    const format = first.format;
+    const stream = new PassThrough();
+    let current = first;
+    let cancelled = false;
+
+    const done = new Promise<void>((resolve, reject) => {
+        stream.on('end', resolve);
+
+        (async () => {
+            for (let index = 0; index < spans.length && !cancelled; index++) {
+                const source = index === 0 ? first : startSpan(spans[index]);
+                current = source;
+                const chunks: Buffer[] = [];
+                source.stream.on('data', (chunk: Buffer) => {
+                    chunks.push(chunk);
+                });
+                await source.done;
+                if (!cancelled) {
+                    stream.write(resamplePcm(Buffer.concat(chunks), source.format.sampleRate, format.sampleRate));
+                }
+            }
+            stream.end();
+        })().catch(error => {
+            stream.end();
+            reject(error);
         });
     });
-}
 
-// Function to load and parse the voices.json file
-function loadVoicesData(context: vscode.ExtensionContext): any {
-    const parentDir = path.resolve(context.extensionUri.fsPath, '');
-    const voicesJsonPath = path.join(parentDir, 'voices', 'voices.json');
-    
+    return {
+        format,
+        stream,
+        done,
+        cancel: () => {
+            cancelled = true;
+            current.cancel();
+        }
+    };
+}
+
+// Run piper to completion and collect the raw PCM it produces
+async function synthesizePcm(context: vscode.ExtensionContext, text: string, options: ReadTextOptions = {}): Promise<SynthesizedAudio> {
+    const source = startHeadlessSpeech(context, text, options);
+
+    const chunks: Buffer[] = [];
+    source.stream.on('data', (data: Buffer) => {
+        chunks.push(data);
+    });
+
+    await source.done;
+    return { pcm: Buffer.concat(chunks), format: source.format };
+}
+
+// Stream the PCM of the text to the caller; destroying the stream stops synthesis
+function synthesizeStream(context: vscode.ExtensionContext, text: string, options: ReadTextOptions = {}): PcmAudioStream {
+    const source = startHeadlessSpeech(context, text, options);
+    const stream = new PassThrough();
+    source.stream.pipe(stream);
+    source.done.catch(error => stream.destroy(error instanceof Error ? error : new Error(String(error))));
+    stream.on('close', () => {
+        if (!stream.readableEnded) {
+            source.cancel();
+        }
+    });
+    return Object.assign(stream, { format: source.format });
+}
+
+async function synthesizeToFile(context: vscode.ExtensionContext, text: string, uri: vscode.Uri, options: SynthesizeToFileOptions = {}): Promise<void> {
+    if (!text) {
+        throw new Error('No text provided');
+    }
+
+    const fileFormat = options.format || getAudioFileFormat(uri.fsPath);
+    if (!fileFormat) {
+        throw new Error(`Unsupported audio file type: ${path.extname(uri.fsPath) || uri.fsPath}`);
+    }
+
+    const { pcm, format } = await synthesizePcm(context, text, options);
+    await writeAudioFile(context, pcm, format, uri.fsPath, fileFormat, options.soxPath);
+}
+
+// WAV is written directly, other formats are encoded with sox
+async function writeAudioFile(context: vscode.ExtensionContext, pcm: Buffer, format: PcmFormat, filePath: string, fileFormat: AudioFileFormat, soxPath?: string): Promise<void> {
+    const destDir = path.dirname(filePath);
+    if (!fs.existsSync(destDir)) {
+        fs.mkdirSync(destDir, { recursive: true });
+    }
+
+    if (fileFormat === 'wav') {
+        await fs.promises.writeFile(filePath, pcmToWav(pcm, format));
+    } else {
+        await encodeWithSox(soxPath || getSoxPath(path.resolve(context.extensionUri.fsPath, '')), pcm, format, filePath, fileFormat);
+    }
+}
+
+async function exportSelectionToAudioFile(context: vscode.ExtensionContext, api: PiperTTSApi) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return;
+    }
+
+    // Fall back to the whole document when nothing is selected
+    const text = editor.selection.isEmpty
+        ? editor.document.getText()
+        : editor.document.getText(editor.selection);
+
+    if (!text) {
+        vscode.window.showInformationMessage('There is no text to export');
+        return;
+    }
+
+    const baseName = path.basename(editor.document.fileName, path.extname(editor.document.fileName)) || 'speech';
+    const defaultDir = editor.document.isUntitled
+        ? vscode.workspace.workspaceFolders?.[0]?.uri
+        : vscode.Uri.file(path.dirname(editor.document.fileName));
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: defaultDir ? vscode.Uri.joinPath(defaultDir, `${baseName}.wav`) : undefined,
+        filters: {
+            'WAV Audio': ['wav'],
+            'MP3 Audio': ['mp3'],
+            'Ogg Vorbis Audio': ['ogg']
+        },
+        saveLabel: 'Export'
+    });
+
+    if (!uri) {
+        return; // User cancelled
+    }
+
     try {
-        const voicesJson = fs.readFileSync(voicesJsonPath, 'utf8');
-        return JSON.parse(voicesJson);
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Exporting speech to ${path.basename(uri.fsPath)}`,
+            cancellable: false
+        }, () => api.synthesizeToFile(text, uri, { languageId: editor.document.languageId }));
+
+        const action = await vscode.window.showInformationMessage(`Speech exported to ${uri.fsPath}`, 'Reveal File');
+        if (action === 'Reveal File') {
+            await vscode.commands.executeCommand('revealFileInOS', uri);
+        }
     } catch (error) {
-        console.error('Error reading voices.json:', error);
-        throw new Error('Failed to load voices data');
+        log.error('Error exporting audio:', error);
+        vscode.window.showErrorMessage('Failed to export audio: ' + (error instanceof Error ? error.message : String(error)));
     }
 }
 
-// Function to download a voice model and its config
-async function downloadVoice(context: vscode.ExtensionContext): Promise<void> {
-    try {
-        const voicesData = loadVoicesData(context);
-        
-        // Get list of languages
-        const languages = Object.keys(voicesData);
-        
-        // Step 1: Let user select a language
-        const selectedLanguage = await vscode.window.showQuickPick(languages, {
-            placeHolder: 'Select a language',
-        });
-        
-        if (!selectedLanguage) {
-            return; // User cancelled
-        }
-        
-        // Step 2: Let user select a voice for the chosen language
-        const voices = Object.keys(voicesData[selectedLanguage]);
-        const selectedVoice = await vscode.window.showQuickPick(voices, {
-            placeHolder: `Select a voice for ${selectedLanguage}`,
-        });
-        
-        if (!selectedVoice) {
-            return; // User cancelled
+// Synthesize a narration chapter source by source and write it in the chapter's format
+async function renderNarrationChapter(context: vscode.ExtensionContext, chapter: ResolvedChapter, outputPath: string, token: vscode.CancellationToken): Promise<number> {
+    const parts: Buffer[] = [];
+    let format: PcmFormat | undefined;
+
+    for (const source of chapter.sources) {
+        const options: ReadTextOptions = { voice: chapter.voice, speaker: chapter.speaker, languageId: source.languageId };
+        if (chapter.rate !== 1) {
+            options.lengthScale = getRateLengthScale(context, chapter.rate, options);
         }
-        
-        // Step 3: Let user select a model size
-        const modelSizes = Object.keys(voicesData[selectedLanguage][selectedVoice]);
-        const selectedSize = await vscode.window.showQuickPick(modelSizes, {
-            placeHolder: `Select a model size for ${selectedVoice}`,
+
+        const speech = startHeadlessSpeech(context, source.text, options);
+        const cancellationListener = token.onCancellationRequested(() => speech.cancel());
+        const chunks: Buffer[] = [];
+        speech.stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
         });
-        
-        if (!selectedSize) {
-            return; // User cancelled
+        try {
+            await speech.done;
+        } finally {
+            cancellationListener.dispose();
         }
-        
-        // Get the model and config URLs
-        const modelUrl = voicesData[selectedLanguage][selectedVoice][selectedSize].model;
-        const configUrl = voicesData[selectedLanguage][selectedVoice][selectedSize].config;
-        
-        // Create language code from the selected language (e.g., "English (en_US)" -> "en_US")
-        const languageCode = selectedLanguage.match(/\(([^)]+)\)/)?.[1] || '';
-        
-        // Create voice ID (e.g., "en_US-amy-medium")
-        const voiceId = `${languageCode}-${selectedVoice}-${selectedSize}`;
-        
-        // Create destination paths
-        const parentDir = path.resolve(context.extensionUri.fsPath, '');
-        const voicesDir = path.join(parentDir, 'voices');
-        
-        // Ensure voices directory exists
-        if (!fs.existsSync(voicesDir)) {
-            fs.mkdirSync(voicesDir, { recursive: true });
+        if (token.isCancellationRequested) {
+            return 0;
         }
-        
-        const modelPath = path.join(voicesDir, `${voiceId}.onnx`);
-        const configPath = path.join(voicesDir, `${voiceId}.onnx.json`);
-        
-        // Show progress while downloading
-        await vscode.window.withProgress({
+
+        format ??= speech.format;
+        parts.push(resamplePcm(Buffer.concat(chunks), speech.format.sampleRate, format.sampleRate));
+    }
+
+    const pcm = Buffer.concat(parts);
+    await writeAudioFile(context, pcm, format!, outputPath, chapter.format);
+    return pcm.length / (format!.sampleRate * format!.channels * format!.bitsPerSample / 8);
+}
+
+// The manifest open in the editor, the only one in the workspace, or one picked by the user
+async function pickNarrationManifest(): Promise<vscode.Uri | undefined> {
+    const document = vscode.window.activeTextEditor?.document;
+    if (document && !document.isUntitled && document.fileName.endsWith(NARRATION_MANIFEST_FILE_NAME)) {
+        await document.save();
+        return document.uri;
+    }
+
+    const manifests = await vscode.workspace.findFiles(`**/*${NARRATION_MANIFEST_FILE_NAME}`, '**/node_modules/**');
+    if (manifests.length === 1) {
+        return manifests[0];
+    }
+    if (manifests.length > 1) {
+        const picked = await vscode.window.showQuickPick(
+            manifests.map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+            { placeHolder: 'Select the narration project to render' }
+        );
+        return picked?.uri;
+    }
+
+    const picked = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Narration Manifest': ['json'] },
+        openLabel: 'Render'
+    });
+    return picked?.[0];
+}
+
+async function renderNarration(context: vscode.ExtensionContext, manifestUri?: vscode.Uri) {
+    const uri = manifestUri ?? await pickNarrationManifest();
+    if (!uri) {
+        return;
+    }
+
+    try {
+        const result = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Downloading ${voiceId}`,
-            cancellable: false
-        }, async (progress) => {
-            progress.report({ message: 'Downloading model file...' });
-            
-            // Download model file
-            await downloadFile(modelUrl, modelPath);
-            
-            progress.report({ message: 'Downloading config file...', increment: 50 });
-            
-            // Download config file
-            await downloadFile(configUrl, configPath);
-            
-            progress.report({ message: 'Download complete', increment: 50 });
+            title: `Rendering ${path.basename(uri.fsPath)}`,
+            cancellable: true
+        }, (progress, token) => {
+            let reported = 0;
+            return renderNarrationProject(uri.fsPath, {
+                getDefaultVoice: getCurrentVoiceId,
+                isVoiceInstalled: voiceId => fs.existsSync(getVoiceModelPath(context, voiceId)),
+                render: (chapter, outputPath, chapterToken) => renderNarrationChapter(context, chapter, outputPath, chapterToken),
+                token,
+                onChapterStart: (chapter, index, total) => {
+                    const percent = index / total * 100;
+                    progress.report({ message: `Chapter ${index + 1} of ${total}: ${chapter.title}`, increment: percent - reported });
+                    reported = percent;
+                }
+            });
         });
-        
-        // Make sure any existing processes are stopped
-        stopCurrentPlayback();
-        
-        // Add a small delay to ensure files are fully written and accessible
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Verify the downloaded files exist and are accessible
-        if (!fs.existsSync(modelPath) || !fs.existsSync(configPath)) {
-            throw new Error('Downloaded voice files not found or not accessible');
+
+        const unchanged = result.skipped > 0 ? `, ${result.skipped} unchanged` : '';
+        if (result.cancelled) {
+            vscode.window.showInformationMessage(`Rendering cancelled after ${result.rendered} chapter${result.rendered === 1 ? '' : 's'}${unchanged}. Run the command again to continue where it stopped.`);
+            return;
         }
-        
-        // Set the downloaded voice as the current voice
-        await vscode.workspace.getConfiguration('piper-tts').update(
-            'voice',
-            voiceId,
-            vscode.ConfigurationTarget.Global
-        );
-        
-        // Ensure file handles are properly closed by forcing a garbage collection
-        if (global.gc) {
-            global.gc();
+        const action = await vscode.window.showInformationMessage(`Rendered ${result.rendered} of ${result.total} chapters${unchanged} to ${result.outputDirectory}`, 'Reveal Playlist');
+        if (action === 'Reveal Playlist') {
+            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(path.join(result.outputDirectory, PLAYLIST_FILE_NAME)));
         }
-        
-        vscode.window.showInformationMessage(`Voice ${voiceId} has been downloaded and set as the current voice.`);
     } catch (error) {
-        console.error('Error downloading voice:', error);
-        vscode.window.showErrorMessage('Failed to download voice: ' + (error instanceof Error ? error.message : String(error)));
+        log.error('Error rendering narration project:', error);
+        vscode.window.showErrorMessage('Failed to render narration project: ' + (error instanceof Error ? error.message : String(error)));
     }
 }
 
-async function selectVoice(context: vscode.ExtensionContext) {
-    const voices = getAvailableVoices(context);
-    
-    if (voices.length === 0) {
-        vscode.window.showErrorMessage('No voice models found in the voices directory');
-        return;
-    }
+// Check Piper, the voice and the player with the current settings, and open a report to attach to bug reports
+async function runDiagnostics(context: vscode.ExtensionContext) {
+    const config = vscode.workspace.getConfiguration('piper-tts');
+    const voiceId = getCurrentVoiceId(vscode.window.activeTextEditor?.document.languageId);
+    const modelPath = getVoiceModelPath(context, voiceId);
+    const getFormat = (): PcmFormat => ({
+        sampleRate: readVoiceMetadata(modelPath).sampleRate,
+        channels: PIPER_PCM_CHANNELS,
+        bitsPerSample: PIPER_PCM_BITS_PER_SAMPLE
+    });
 
-    const items = voices.map(voice => ({
-        label: getVoiceLabel(voice),
-        description: voice,
+    const environment: HealthCheckEnvironment = {
+        platform: os.platform(),
+        getPiper: () => getPiperExecutable(context),
+        voiceId,
+        modelPath,
+        getPlayerCommand: () => getPlayerCommand(context.extensionUri.fsPath, getFormat()),
+        // Straight to piper, without preprocessing or the cache, so piper itself is tested
+        synthesize: async (text) => {
+            const format = getFormat();
+            const { args, speakerId } = getPiperArgs(modelPath, readVoiceMetadata(modelPath), {});
+            const source = runPiper(getPiperExecutable(context), args, text, speakerId, format, true);
+            const chunks: Buffer[] = [];
+            source.stream.on('data', (chunk: Buffer) => {
+                chunks.push(chunk);
+            });
+            await source.done;
+            return { pcm: Buffer.concat(chunks), format };
+        }
+    };
+
+    log.info('Running diagnostics');
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Running Piper TTS diagnostics'
+    }, (progress) => runHealthCheck(environment, result => {
+        progress.report({ message: result.name });
+        const line = `${result.name}: ${result.status}, ${result.detail}`;
+        if (result.status === 'fail') {
+            log.error(line);
+        } else if (result.status === 'warning') {
+            log.warn(line);
+        } else {
+            log.info(line);
+        }
     }));
 
-    const selection = await vscode.window.showQuickPick(items, {
-        placeHolder: 'Select a voice for text-to-speech',
+    const report = formatHealthReport(results, {
+        'Extension': `${context.extension.packageJSON.version}`,
+        'VS Code': vscode.version,
+        'OS': `${os.platform()} ${os.release()} (${os.arch()})`,
+        'Voice': voiceId,
+        'Player': config.get<string>('player', 'auto'),
+        'Persistent process': String(isPersistentProcessEnabled())
     });
+    const document = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' });
+    await vscode.window.showTextDocument(document);
 
-    if (selection) {
-        await vscode.workspace.getConfiguration('piper-tts').update(
-            'voice',
-            selection.description,
-            vscode.ConfigurationTarget.Global
-        );
+    const failures = results.filter(result => result.status === 'fail').length;
+    const message = failures > 0
+        ? `Piper TTS diagnostics found ${failures} problem${failures === 1 ? '' : 's'}. Copy the report to include it in a bug report.`
+        : 'All Piper TTS diagnostics passed.';
+    const action = await (failures > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage)(message, 'Copy Report', 'Show Log');
+    if (action === 'Copy Report') {
+        await vscode.env.clipboard.writeText(report);
+    } else if (action === 'Show Log') {
+        getLogChannel().show();
     }
 }
 
-function getPiperPath(context: vscode.ExtensionContext): string {
-    const platform = os.platform();
-    const arch = os.arch();
-    
-    // Get absolute path to extension directory
-    const extensionPath = context.extensionUri.fsPath;
-    console.log('Extension path:', extensionPath);
-    
-    // Get parent directory
-    const parentDir = path.resolve(extensionPath, '');
-    console.log('Parent directory:', parentDir);
-    
-    // List files in parent directory for debugging
-    try {
-        const files = fs.readdirSync(parentDir);
-        console.log('Files in parent directory:', files);
-    } catch (error) {
-        console.error('Error reading parent directory:', error);
+async function pickLexiconLocation(lexicon: PronunciationLexicon, placeHolder: string): Promise<LexiconLocation | undefined> {
+    const locations = lexicon.getLocations();
+    if (locations.length === 1) {
+        return locations[0];
     }
 
-    let piperPath: string;
-    switch (platform) {
-        case 'win32':
-            piperPath = path.join(parentDir, 'piper/windows_amd64', 'piper.exe');
-            break;
-        case 'darwin':
-            if (arch === 'arm64') {
-                piperPath = path.join(parentDir, 'piper/macos_aarch64', 'piper');
-            } else {
-                piperPath = path.join(parentDir, 'piper/macos_x64', 'piper');
-            }
-            break;
-        case 'linux':
-            if (arch === 'arm64') {
-                piperPath = path.join(parentDir, 'piper/linux_aarch64', 'piper');
-            } else if (arch === 'arm') {
-                piperPath = path.join(parentDir, 'piper/linux_armv7l', 'piper');
-            } else {
-                piperPath = path.join(parentDir, 'piper/linux_x86_64', 'piper');
-            }
-            break;
-        default:
-            throw new Error(`Unsupported platform: ${platform}`);
-    }
+    const selection = await vscode.window.showQuickPick(locations.map(location => ({
+        label: location.scope === 'workspace' ? `Workspace: ${location.label}` : 'User',
+        description: location.scope === 'workspace' ? `.vscode/${LEXICON_FILE_NAME}` : 'All workspaces',
+        location
+    })), { placeHolder });
 
-    console.log('Full Piper path:', piperPath);
-    console.log('Path exists:', fs.existsSync(piperPath));
-    return piperPath;
+    return selection?.location;
 }
 
-function getVoicePath(context: vscode.ExtensionContext): string {
-    const config = vscode.workspace.getConfiguration('piper-tts');
-    const selectedVoice = config.get<string>('voice') || 'en_US-hfc_female-medium';
-    
-    const parentDir = path.resolve(context.extensionUri.fsPath, '');
-    const voicePath = path.join(parentDir, 'voices', `${selectedVoice}.onnx`);
-    console.log('Voice path:', voicePath);
-    console.log('Voice exists:', fs.existsSync(voicePath));
-    return voicePath;
-}
+async function addPronunciationFromSelection(lexicon: PronunciationLexicon, api: PiperTTSApi) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return;
+    }
 
-function getPlaybackCommand(context: vscode.ExtensionContext): { command: string, args: string[] } {
-    const platform = os.platform();
-    
-    switch (platform) {
-        case 'win32':
-            const parentDir = path.resolve(context.extensionUri.fsPath, '');
-            const playPath = path.join(parentDir, 'sox', 'play.exe');
-            return { command: playPath, args: [
-                '-t', 'raw',
-                '-r', '22050',
-                '-b', '16',
-                '-e', 'signed',
-                '-c', '1',
-                '-L',
-                '-',
-                'remix', '1'
-            ]};
-        case 'darwin':
-            return { command: 'afplay', args: ['-'] };
-        case 'linux':
-            return { command: 'aplay', args: ['-r', '22050', '-f', 'S16_LE', '-t', 'raw', '-'] };
-        default:
-            throw new Error(`Unsupported platform: ${platform}`);
+    // Use the word under the cursor when nothing is selected
+    const range = editor.selection.isEmpty
+        ? editor.document.getWordRangeAtPosition(editor.selection.active)
+        : editor.selection;
+    const word = range ? editor.document.getText(range).trim() : '';
+
+    if (!word) {
+        vscode.window.showInformationMessage('Please select the word to add a pronunciation for');
+        return;
     }
-}
 
-function stopCurrentPlayback() {
+    const pronunciation = await vscode.window.showInputBox({
+        prompt: `How should "${word}" be pronounced?`,
+        placeHolder: 'Spell it the way it sounds, e.g. "koo ber net eez", or give phonemes as [[ phonemes ]]',
+        validateInput: value => value.trim() ? undefined : 'Enter a pronunciation'
+    });
+
+    if (!pronunciation) {
+        return; // User cancelled
+    }
+
+    const location = await pickLexiconLocation(lexicon, `Where should the pronunciation for "${word}" be saved?`);
+    if (!location) {
+        return; // User cancelled
+    }
+
+    const phonemes = pronunciation.trim().match(/^\[\[(.*)\]\]$/)?.[1].trim();
+    const entry: LexiconEntry = phonemes
+        ? { match: word, phonemes }
+        : { match: word, replace: pronunciation.trim() };
+
     try {
-        if (piperProcess && !piperProcess.killed) {
-            console.log('Stopping Piper process...');
-            piperProcess.kill();
-            piperProcess = undefined;
-        }
-        
-        if (playerProcess && !playerProcess.killed) {
-            console.log('Stopping player process...');
-            playerProcess.kill();
-            playerProcess = undefined;
-        }
+        lexicon.addEntry(location.path, entry);
     } catch (error) {
-        console.error('Error stopping playback:', error);
-        // Reset process references even if kill fails
-        piperProcess = undefined;
-        playerProcess = undefined;
+        log.error('Error saving pronunciation:', error);
+        vscode.window.showErrorMessage('Failed to save pronunciation: ' + (error instanceof Error ? error.message : String(error)));
+        return;
+    }
+
+    const action = await vscode.window.showInformationMessage(`Pronunciation for "${word}" saved.`, 'Preview', 'Open Lexicon');
+    if (action === 'Preview') {
+        api.readText(word).catch(error => {
+            showPlaybackError(error);
+        });
+    } else if (action === 'Open Lexicon') {
+        await vscode.window.showTextDocument(vscode.Uri.file(location.path));
+    }
+}
+
+async function openPronunciationLexicon(lexicon: PronunciationLexicon) {
+    const location = await pickLexiconLocation(lexicon, 'Select the pronunciation lexicon to open');
+    if (!location) {
+        return; // User cancelled
+    }
+
+    if (!fs.existsSync(location.path)) {
+        fs.mkdirSync(path.dirname(location.path), { recursive: true });
+        fs.writeFileSync(location.path, JSON.stringify({ entries: [] }, null, 2) + '\n', 'utf8');
     }
+    await vscode.window.showTextDocument(vscode.Uri.file(location.path));
 }
 
 async function removeVoice(context: vscode.ExtensionContext) {
-    const voices = getAvailableVoices(context);
+    // Voices in piper-tts.voiceDirectories are often shared, so they are not removed from here
+    const voices = getAvailableVoices(context).filter(voice => voice.source !== 'custom');
     
     if (voices.length === 0) {
-        vscode.window.showErrorMessage('No voice models found in the voices directory');
+        vscode.window.showErrorMessage('No removable voice models found');
         return;
     }
 
-    const items = voices.map(voice => ({
-        label: getVoiceLabel(voice),
-        description: voice,
-    }));
+    const items = getVoiceQuickPickItems(voices);
 
     const selection = await vscode.window.showQuickPick(items, {
         placeHolder: 'Select a voice to remove',
     });
 
     if (selection) {
-        const voiceId = selection.description;
-        const parentDir = path.resolve(context.extensionUri.fsPath, '');
-        const modelPath = path.join(parentDir, 'voices', `${voiceId}.onnx`);
-        const configPath = path.join(parentDir, 'voices', `${voiceId}.onnx.json`);
+        await deleteVoice(context, selection.description);
+    }
+}
 
-        try {
-            // Delete the model file if it exists
-            if (fs.existsSync(modelPath)) {
-                fs.unlinkSync(modelPath);
-            }
-            // Delete the config file if it exists
-            if (fs.existsSync(configPath)) {
-                fs.unlinkSync(configPath);
-            }
+async function deleteVoice(context: vscode.ExtensionContext, voiceId: string) {
+    const modelPath = getVoiceModelPath(context, voiceId);
+    const configPath = getVoiceConfigPath(modelPath);
 
-            vscode.window.showInformationMessage(`Voice ${voiceId} has been removed.`);
+    try {
+        // Release the model held open by a persistent piper process, speech with other voices carries on
+        if (piperWorkerPool?.hasModel(modelPath)) {
+            stopCurrentPlayback();
+            piperWorkerPool.releaseModel(modelPath);
+        }
 
-            // If this was the currently selected voice, reset to default
-            const config = vscode.workspace.getConfiguration('piper-tts');
-            const currentVoice = config.get<string>('voice');
-            if (currentVoice === voiceId) {
-                await config.update('voice', 'en_US-hfc_female-medium', vscode.ConfigurationTarget.Global);
-            }
-        } catch (error) {
-            console.error('Error removing voice:', error);
-            vscode.window.showErrorMessage('Failed to remove voice: ' + (error instanceof Error ? error.message : String(error)));
+        // Delete the model file if it exists
+        if (fs.existsSync(modelPath)) {
+            fs.unlinkSync(modelPath);
+        }
+        // Delete the config file if it exists
+        if (fs.existsSync(configPath)) {
+            fs.unlinkSync(configPath);
         }
+        clearVoiceMetadataCache(modelPath);
+        synthesisCache?.invalidateVoice(voiceId);
+        getVoiceStore(context).notifyChanged();
+
+        // Settings that used the voice fall back to the next scope, and eventually the default voice
+        const repaired = await removeVoiceReferences(voiceId);
+        vscode.window.showInformationMessage(repaired.length > 0
+            ? `Voice ${voiceId} has been removed and unset in: ${repaired.join(', ')}.`
+            : `Voice ${voiceId} has been removed.`);
+    } catch (error) {
+        log.error('Error removing voice:', error);
+        vscode.window.showErrorMessage('Failed to remove voice: ' + (error instanceof Error ? error.message : String(error)));
     }
 }
 
-// API interface that will be exposed to other extensions
-export interface PiperTTSApi {
-    readText(text: string): Promise<void>;
-    stopPlayback(): void;
-    selectVoice(): Promise<void>;
-    downloadVoice(): Promise<void>;
-    removeVoice(): Promise<void>;
+async function removeVoiceFromTree(context: vscode.ExtensionContext, item: VoiceTreeItem) {
+    const answer = await vscode.window.showWarningMessage(
+        `Remove voice ${item.voice.id}? Its model files will be deleted.`,
+        { modal: true },
+        'Remove'
+    );
+    if (answer === 'Remove') {
+        await deleteVoice(context, item.voice.id);
+    }
+}
+
+async function showVoiceMetadata(item: VoiceTreeItem) {
+    const configPath = getVoiceConfigPath(item.voice.modelPath);
+    if (!fs.existsSync(configPath)) {
+        vscode.window.showInformationMessage(`Voice ${item.voice.id} has no .onnx.json config.`);
+        return;
+    }
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(configPath));
+    await vscode.window.showTextDocument(document, { preview: true });
 }
 
+export * from './api';
+
 // This will be the exported API that other extensions can consume
 let extensionApi: PiperTTSApi | undefined;
 
 export function activate(context: vscode.ExtensionContext): PiperTTSApi {
-    console.log('Piper TTS extension is now active!');
-    console.log('Extension path:', context.extensionUri.fsPath);
-    console.log('OS platform:', os.platform());
-    console.log('OS architecture:', os.arch());
+    log.info('Piper TTS extension is now active!');
+    log.info('Extension path:', context.extensionUri.fsPath);
+    log.info('OS platform:', os.platform());
+    log.info('OS architecture:', os.arch());
     
     // Fix symbolic links on Linux platforms before doing anything else
+    let binariesReady = Promise.resolve();
     if (os.platform() === 'linux') {
-        fixSymlinks(context.extensionUri.fsPath).catch(error => {
-            console.error('Failed to fix symbolic links:', error);
+        binariesReady = fixSymlinks(context.extensionUri.fsPath).catch(error => {
+            log.error('Failed to fix symbolic links:', error);
             // Continue execution even if symlink fix fails
         });
     }
     
-    // Set execute permissions for Linux and macOS binaries
-    if (os.platform() === 'linux' || os.platform() === 'darwin') {
+    // Set execute permissions for the bundled Linux and macOS binaries
+    const piperPath = getBundledPiperPath(context.extensionUri.fsPath);
+    if (!piperPath) {
+        log.warn(`No bundled Piper for ${os.platform()} ${os.arch()}, set piper-tts.piperPath to use Piper`);
+    } else if (os.platform() === 'linux' || os.platform() === 'darwin') {
         try {
-            const parentDir = path.resolve(context.extensionUri.fsPath, '');
-            const piperPath = getPiperPath(context);
-            
             // Make the piper binary executable
             fs.chmodSync(piperPath, 0o755);
-            console.log(`Set execute permissions for ${piperPath}`);
+            log.debug(`Set execute permissions for ${piperPath}`);
             
             // Also set permissions for other binaries that might be needed
             const binDir = path.dirname(piperPath);
@@ -462,130 +1416,123 @@ export function activate(context: vscode.ExtensionContext): PiperTTSApi {
                 const binaryPath = path.join(binDir, binary);
                 if (fs.existsSync(binaryPath)) {
                     fs.chmodSync(binaryPath, 0o755);
-                    console.log(`Set execute permissions for ${binaryPath}`);
+                    log.debug(`Set execute permissions for ${binaryPath}`);
                 }
             }
         } catch (error) {
-            console.error('Error setting execute permissions:', error);
+            log.error('Error setting execute permissions:', error);
         }
     }
 
-    // Create the API implementation
-    const api: PiperTTSApi = {
-        readText: async (text: string) => {
-            try {
-                if (!text) {
-                    throw new Error('No text provided');
-                }
+    const workerPool = new PiperWorkerPool(() => vscode.workspace.getConfiguration('piper-tts').get<number>('workerIdleTimeout', 300) * 1000);
+    piperWorkerPool = workerPool;
+    context.subscriptions.push(workerPool);
 
-                // Stop any current playback
-                stopCurrentPlayback();
+    // Loading the model as soon as possible keeps the first utterance fast
+    const voicesReady = getVoiceStore(context).migrate(context.globalState).catch(error => {
+        log.error('Failed to move voices to global storage:', error);
+    });
+    Promise.all([binariesReady, voicesReady]).then(() => warmUpPiper(context));
+    const config = vscode.workspace.getConfiguration('piper-tts');
+    if (PIPER_SETTINGS.some(setting => config.get<string>(setting))) {
+        binariesReady.then(() => checkPiperSettings(context, true));
+    }
 
-                // Small delay to ensure any file operations are complete
-                await new Promise(resolve => setTimeout(resolve, 100));
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (!event.affectsConfiguration('piper-tts')) {
+            return;
+        }
+        const piperChanged = PIPER_SETTINGS.some(setting => event.affectsConfiguration(`piper-tts.${setting}`));
+        if (!isPersistentProcessEnabled()) {
+            workerPool.dispose();
+        } else if (event.affectsConfiguration('piper-tts.voice') || event.affectsConfiguration('piper-tts.voiceDirectories') || piperChanged) {
+            warmUpPiper(context);
+        }
+        if (piperChanged) {
+            checkPiperSettings(context, false);
+        }
+        if (event.affectsConfiguration('piper-tts.voiceDirectories')) {
+            getVoiceStore(context).notifyChanged();
+        }
+    }));
 
-                const piperPath = getPiperPath(context);
-                const voicePath = getVoicePath(context);
+    const webviewPlayer = new WebviewPlayer();
+    context.subscriptions.push(webviewPlayer);
 
-                // Verify file existence
-                if (!fs.existsSync(piperPath)) {
-                    throw new Error(`Piper executable not found at: ${piperPath}`);
-                }
-                if (!fs.existsSync(voicePath)) {
-                    throw new Error(`Voice model not found at: ${voicePath}`);
-                }
-                
-                // Verify the voice file is accessible and not locked
-                try {
-                    // Try to open the file to verify it's not locked
-                    const fd = fs.openSync(voicePath, 'r');
-                    fs.closeSync(fd);
-                } catch (err) {
-                    const errorMessage = err instanceof Error ? err.message : String(err);
-                    throw new Error(`Voice model file is not accessible: ${errorMessage}`);
-                }
+    const manager = new PlaybackManager({
+        synthesize: (text, options) => withPauses(withVolume(startPiper(context, text, options)), options),
+        getPlayerCommand: (format) => getPlayerCommand(context.extensionUri.fsPath, format),
+        playWav: (wav) => webviewPlayer.play(wav)
+    });
+    playbackManager = manager;
+    context.subscriptions.push(manager);
+    context.subscriptions.push(createPlaybackStatusBarItem(manager));
 
-                const playback = getPlaybackCommand(context);
+    synthesisCache = new SynthesisCache(
+        path.join(context.globalStorageUri.fsPath, SYNTHESIS_CACHE_DIRECTORY_NAME),
+        () => Math.max(0, vscode.workspace.getConfiguration('piper-tts').get<number>('cacheSize', 100)) * 1024 * 1024
+    );
 
-                // Create piper process with full path
-                const piper = spawn(piperPath, ['--model', voicePath, '--output-raw'], {
-                    cwd: path.dirname(piperPath),
-                    env: { ...process.env },
-                    windowsHide: false
-                });
-                piperProcess = piper;
+    const lexicon = new PronunciationLexicon(path.join(context.globalStorageUri.fsPath, LEXICON_FILE_NAME));
+    pronunciationLexicon = lexicon;
 
-                // Create playback process
-                const player = spawn(playback.command, playback.args);
-                playerProcess = player;
+    const documentReader = new DocumentReader(manager, (sentences, document) => routeSentencesByLanguage(context, sentences, document.languageId));
+    context.subscriptions.push(documentReader);
 
-                // Handle process output for debugging
-                piper.stdout.on('data', (data) => {
-                    console.log('Piper output:', data.toString());
-                });
+    const tracker = new UtteranceTracker(manager);
+    context.subscriptions.push(tracker);
 
-                piper.stderr.on('data', (data) => {
-                    console.error('Piper error output:', data.toString());
-                });
+    const store = getVoiceStore(context);
+    const catalog = getVoiceCatalog(context);
+    context.subscriptions.push(store, catalog);
 
-                player.stdout.on('data', (data) => {
-                    console.log('Player output:', data.toString());
-                });
+    const gallery = new VoiceGallery({
+        catalog,
+        store,
+        getActiveVoice: getCurrentVoiceId,
+        install: (voice) => installVoice(context, voice),
+        select: async (voiceId) => {
+            await setCurrentVoice(context, voiceId);
+        },
+        preview: (voiceId) => previewVoice(context, voiceId)
+    });
+    context.subscriptions.push(gallery);
 
-                player.stderr.on('data', (data) => {
-                    console.error('Player error output:', data.toString());
-                });
+    const voiceTree = new VoiceTreeProvider(store, getCurrentVoiceId);
+    context.subscriptions.push(voiceTree);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('piper-tts.voices', voiceTree));
 
-                // Pipe the text through piper and to the playback command
-                piper.stdout.pipe(player.stdin);
-                piper.stdin.write(text);
-                piper.stdin.end();
-
-                // Return a promise that resolves when playback is complete
-                return new Promise((resolve, reject) => {
-                    piper.on('error', (error) => {
-                        console.error('Piper error:', error);
-                        reject(error);
-                    });
-
-                    player.on('error', (error) => {
-                        console.error('Playback error:', error);
-                        reject(error);
-                    });
-
-                    // Clean up processes
-                    piper.on('close', (code) => {
-                        console.log('Piper process exited with code:', code);
-                        piperProcess = undefined;
-                        // Only reject if the process wasn't killed intentionally
-                        if (code !== 0 && code !== null) {
-                            reject(new Error(`Piper process exited with code: ${code}`));
-                        } else {
-                            resolve();
-                        }
-                    });
-
-                    player.on('close', (code) => {
-                        console.log('Player process exited with code:', code);
-                        playerProcess = undefined;
-                        if (code === 0) {
-                            resolve();
-                        } else {
-                            reject(new Error(`Player process exited with code: ${code}`));
-                        }
-                    });
-                });
-            } catch (error) {
-                console.error('Error:', error);
-                throw error;
-            }
-        },
+    // Create the API implementation
+    const api: PiperTTSApi = {
+        apiVersion: API_VERSION,
+        readText: (text: string, options?: ReadTextOptions) => speak(context, tracker, manager, text, options, true),
+        enqueue: (text: string, options?: ReadTextOptions) => speak(context, tracker, manager, text, options),
+        synthesize: (text: string, options?: ReadTextOptions) => synthesizePcm(context, text, options),
+        synthesizeStream: (text: string, options?: ReadTextOptions) => synthesizeStream(context, text, options),
+        synthesizeToFile: (text: string, uri: vscode.Uri, options?: SynthesizeToFileOptions) => synthesizeToFile(context, text, uri, options),
         stopPlayback: () => {
             stopCurrentPlayback();
         },
+        pause: () => manager.pause(),
+        resume: () => manager.resume(),
+        skip: () => manager.skip(),
+        clearQueue: () => manager.clearQueue(),
+        getQueue: () => manager.getSnapshot(),
+        onDidChangeQueue: manager.onDidChangeQueue,
+        getState: () => manager.state,
+        getCurrentVoice: () => tracker.getCurrentVoice() ?? getCurrentVoiceId(),
+        onDidStartSpeaking: tracker.onDidStartSpeaking,
+        onDidChangeSentence: tracker.onDidChangeSentence,
+        onDidFinishSpeaking: tracker.onDidFinishSpeaking,
+        onDidError: tracker.onDidError,
         selectVoice: () => selectVoice(context),
         downloadVoice: () => downloadVoice(context),
-        removeVoice: () => removeVoice(context)
+        removeVoice: () => removeVoice(context),
+        getVoiceMetadata: (voiceId?: string) => {
+            const modelPath = getVoiceModelPath(context, voiceId || getCurrentVoiceId());
+            return fs.existsSync(modelPath) ? readVoiceMetadata(modelPath) : undefined;
+        },
+        registerTextTransformer: (transformer: TextTransformer) => textPreprocessor.register(transformer)
     };
 
     // Register commands to use the API
@@ -607,22 +1554,158 @@ export function activate(context: vscode.ExtensionContext): PiperTTSApi {
         }
 
         try {
-            await api.readText(text);
+            await api.readText(text, { languageId: editor.document.languageId });
         } catch (error) {
-            vscode.window.showErrorMessage('Error running text-to-speech: ' + (error instanceof Error ? error.message : String(error)));
+            showPlaybackError(error);
         }
     });
     context.subscriptions.push(readAloudDisposable);
 
+    const readDocument = async (fromCursor: boolean) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const fromOffset = fromCursor ? editor.document.offsetAt(editor.selection.active) : 0;
+        try {
+            await documentReader.read(editor.document, fromOffset);
+        } catch (error) {
+            showPlaybackError(error);
+        }
+    };
+
+    const readDocumentDisposable = vscode.commands.registerCommand('piper-tts.readDocument', () => readDocument(false));
+    context.subscriptions.push(readDocumentDisposable);
+
+    const readFromCursorDisposable = vscode.commands.registerCommand('piper-tts.readFromCursor', () => readDocument(true));
+    context.subscriptions.push(readFromCursorDisposable);
+
+    const announcer = new Announcer(api);
+    context.subscriptions.push(announcer);
+
+    const announce = async (read: (editor: vscode.TextEditor) => Promise<void>) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        try {
+            await read(editor);
+        } catch (error) {
+            showPlaybackError(error);
+        }
+    };
+
+    const readCurrentLineDisposable = vscode.commands.registerCommand('piper-tts.readCurrentLine', () => announce(editor => announcer.readCurrentLine(editor)));
+    context.subscriptions.push(readCurrentLineDisposable);
+
+    const readLineProblemsDisposable = vscode.commands.registerCommand('piper-tts.readLineProblems', () => announce(editor => announcer.readLineProblems(editor)));
+    context.subscriptions.push(readLineProblemsDisposable);
+
+    const readHoverDisposable = vscode.commands.registerCommand('piper-tts.readHover', () => announce(editor => announcer.readHover(editor)));
+    context.subscriptions.push(readHoverDisposable);
+
+    const addPronunciationDisposable = vscode.commands.registerCommand('piper-tts.addPronunciation', () => addPronunciationFromSelection(lexicon, api));
+    context.subscriptions.push(addPronunciationDisposable);
+
+    const openLexiconDisposable = vscode.commands.registerCommand('piper-tts.openLexicon', () => openPronunciationLexicon(lexicon));
+    context.subscriptions.push(openLexiconDisposable);
+
+    const exportAudioDisposable = vscode.commands.registerCommand('piper-tts.exportAudio', () => exportSelectionToAudioFile(context, api));
+    context.subscriptions.push(exportAudioDisposable);
+
+    // The explorer's context menu passes the manifest's URI
+    const renderNarrationDisposable = vscode.commands.registerCommand('piper-tts.renderNarrationProject', (uri?: vscode.Uri) => renderNarration(context, uri));
+    context.subscriptions.push(renderNarrationDisposable);
+
+    const fasterDisposable = vscode.commands.registerCommand('piper-tts.faster', () => adjustSpeechRate(context, RATE_STEP));
+    context.subscriptions.push(fasterDisposable);
+
+    const slowerDisposable = vscode.commands.registerCommand('piper-tts.slower', () => adjustSpeechRate(context, 1 / RATE_STEP));
+    context.subscriptions.push(slowerDisposable);
+
     const stopDisposable = vscode.commands.registerCommand('piper-tts.stopPlayback', () => api.stopPlayback());
     context.subscriptions.push(stopDisposable);
 
+    const pauseDisposable = vscode.commands.registerCommand('piper-tts.pausePlayback', () => api.pause());
+    context.subscriptions.push(pauseDisposable);
+
+    const resumeDisposable = vscode.commands.registerCommand('piper-tts.resumePlayback', () => api.resume());
+    context.subscriptions.push(resumeDisposable);
+
+    const togglePauseDisposable = vscode.commands.registerCommand('piper-tts.togglePause', () => manager.togglePause());
+    context.subscriptions.push(togglePauseDisposable);
+
+    const skipDisposable = vscode.commands.registerCommand('piper-tts.skip', () => api.skip());
+    context.subscriptions.push(skipDisposable);
+
+    const clearQueueDisposable = vscode.commands.registerCommand('piper-tts.clearQueue', () => api.clearQueue());
+    context.subscriptions.push(clearQueueDisposable);
+
     const downloadVoiceDisposable = vscode.commands.registerCommand('piper-tts.downloadVoice', () => api.downloadVoice());
     context.subscriptions.push(downloadVoiceDisposable);
 
     const removeVoiceDisposable = vscode.commands.registerCommand('piper-tts.removeVoice', () => api.removeVoice());
     context.subscriptions.push(removeVoiceDisposable);
 
+    const openVoiceGalleryDisposable = vscode.commands.registerCommand('piper-tts.openVoiceGallery', () => gallery.show());
+    context.subscriptions.push(openVoiceGalleryDisposable);
+
+    const refreshVoiceCatalogDisposable = vscode.commands.registerCommand('piper-tts.refreshVoiceCatalog', async () => {
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Refreshing voice catalog'
+            }, () => catalog.refresh());
+            vscode.window.showInformationMessage(`Voice catalog refreshed: ${catalog.getVoices().length} voices available.`);
+        } catch (error) {
+            log.error('Error refreshing voice catalog:', error);
+            vscode.window.showErrorMessage('Failed to refresh voice catalog: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+    context.subscriptions.push(refreshVoiceCatalogDisposable);
+
+    // Inline actions of the voices view, which pass the voice's tree item
+    const setActiveVoiceDisposable = vscode.commands.registerCommand('piper-tts.setActiveVoice', (item: VoiceTreeItem) => setCurrentVoice(context, item.voice.id));
+    context.subscriptions.push(setActiveVoiceDisposable);
+
+    const previewVoiceDisposable = vscode.commands.registerCommand('piper-tts.previewVoice', async (item: VoiceTreeItem) => {
+        try {
+            await previewVoice(context, item.voice.id);
+        } catch (error) {
+            vscode.window.showErrorMessage('Failed to preview voice: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+    context.subscriptions.push(previewVoiceDisposable);
+
+    const removeVoiceFromTreeDisposable = vscode.commands.registerCommand('piper-tts.removeVoiceFromTree', (item: VoiceTreeItem) => removeVoiceFromTree(context, item));
+    context.subscriptions.push(removeVoiceFromTreeDisposable);
+
+    const revealVoiceDisposable = vscode.commands.registerCommand('piper-tts.revealVoice', (item: VoiceTreeItem) => vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(item.voice.modelPath)));
+    context.subscriptions.push(revealVoiceDisposable);
+
+    const showVoiceMetadataDisposable = vscode.commands.registerCommand('piper-tts.showVoiceMetadata', (item: VoiceTreeItem) => showVoiceMetadata(item));
+    context.subscriptions.push(showVoiceMetadataDisposable);
+
+    const refreshVoicesDisposable = vscode.commands.registerCommand('piper-tts.refreshVoices', () => store.notifyChanged());
+    context.subscriptions.push(refreshVoicesDisposable);
+
+    const showCacheSizeDisposable = vscode.commands.registerCommand('piper-tts.showCacheSize', () => showCacheSize());
+    context.subscriptions.push(showCacheSizeDisposable);
+
+    const clearCacheDisposable = vscode.commands.registerCommand('piper-tts.clearCache', () => clearSynthesisCache());
+    context.subscriptions.push(clearCacheDisposable);
+
+    const selectPlayerDisposable = vscode.commands.registerCommand('piper-tts.selectPlayer', () => selectPlayer(context));
+    context.subscriptions.push(selectPlayerDisposable);
+
+    const runDiagnosticsDisposable = vscode.commands.registerCommand('piper-tts.runDiagnostics', () => runDiagnostics(context));
+    context.subscriptions.push(runDiagnosticsDisposable);
+
+    const showLogDisposable = vscode.commands.registerCommand('piper-tts.showLog', () => getLogChannel().show());
+    context.subscriptions.push(showLogDisposable);
+
     // Store the API in our module-level variable so it can be accessed by getApi
     extensionApi = api;
     
@@ -647,4 +1730,11 @@ export function getApi(): PiperTTSApi | undefined {
 
 export function deactivate() {
     stopCurrentPlayback();
+    playbackManager = undefined;
+    pronunciationLexicon = undefined;
+    piperWorkerPool = undefined;
+    voiceStore = undefined;
+    voiceCatalog = undefined;
+    synthesisCache = undefined;
+    disposeLogChannel();
 }
@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PcmFormat } from './audioUtils';
+import { PlayerCommand, findExecutable } from './audioPlayer';
+import { PiperExecutable, describePiperExecutable, findEspeakDataProblem, parsePiperVersion, runPiperCommand } from './piperBinary';
+import { getSymlinkMappings } from './symlinkUtils';
+import { getVoiceConfigPath, getVoiceDetail, parseVoiceConfig } from './voiceMetadata';
+
+export type CheckStatus = 'pass' | 'warning' | 'fail' | 'skipped';
+
+export interface CheckResult {
+    name: string;
+    status: CheckStatus;
+    detail: string;
+}
+
+// What the checks need to know about the extension, so they run against the real settings
+export interface HealthCheckEnvironment {
+    platform: NodeJS.Platform;
+    // Throws when there is no Piper for this platform
+    getPiper(): PiperExecutable;
+    voiceId: string;
+    modelPath: string;
+    // Throws when no player is available
+    getPlayerCommand(): PlayerCommand;
+    synthesize(text: string): Promise<{ pcm: Buffer, format: PcmFormat }>;
+}
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+    pass: '✅ Pass',
+    warning: '⚠️ Warning',
+    fail: '❌ Fail',
+    skipped: '➖ Skipped'
+};
+
+const PROCESS_TIMEOUT_MS = 10000;
+const SYNTHESIS_TIMEOUT_MS = 60000;
+const TEST_SENTENCE = 'Piper TTS is working.';
+
+// Messages of the dynamic loaders on Linux, macOS and Windows when a library is missing
+const GLIBC_HINT = 'The bundled Piper needs glibc, which systems such as Alpine and NixOS do not provide. Install Piper and set piper-tts.piperPath to it.';
+
+const LIBRARY_ERROR = /error while loading shared libraries[^\n]*|version `GLIBC_[^\n]*|Library not loaded[^\n]*|dyld[^\n]*|The code execution cannot proceed[^\n]*|\S+\.dll was not found[^\n]*/i;
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, description: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`${description} did not finish within ${timeoutMs / 1000} seconds`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function checkBinary(environment: HealthCheckEnvironment, piper: PiperExecutable): CheckResult {
+    const name = 'Piper binary';
+    if (piper.source === 'command') {
+        return findExecutable(piper.command)
+            ? { name, status: 'pass', detail: describePiperExecutable(piper) }
+            : { name, status: 'fail', detail: `${piper.command} from piper-tts.piperCommand was not found` };
+    }
+
+    const { command } = piper;
+    if (!fs.existsSync(command)) {
+        return { name, status: 'fail', detail: `Not found at ${command}.${piper.source === 'bundled' ? ' Reinstall the extension.' : ''}` };
+    }
+    if (!fs.statSync(command).isFile()) {
+        return { name, status: 'fail', detail: `${command} is not a file` };
+    }
+    if (environment.platform !== 'win32') {
+        try {
+            fs.accessSync(command, fs.constants.X_OK);
+        } catch {
+            return { name, status: 'fail', detail: `${command} is not executable. Run chmod +x on it.` };
+        }
+    }
+    if (piper.fallbackReason) {
+        return { name, status: 'warning', detail: `${piper.fallbackReason}, using ${describePiperExecutable(piper)}` };
+    }
+    return { name, status: 'pass', detail: describePiperExecutable(piper) };
+}
+
+// fixSymlinks recreates these links next to the bundled binary on Linux
+function checkSymlinks(environment: HealthCheckEnvironment, piper: PiperExecutable): CheckResult {
+    const name = 'Library links';
+    if (environment.platform !== 'linux') {
+        return { name, status: 'skipped', detail: 'Only needed on Linux' };
+    }
+    if (piper.source !== 'bundled') {
+        return { name, status: 'skipped', detail: 'Only needed for the bundled Piper' };
+    }
+
+    const directory = path.dirname(piper.command);
+    const mappings = getSymlinkMappings();
+    if (!mappings.some(({ target }) => fs.existsSync(path.join(directory, target)))) {
+        return { name, status: 'skipped', detail: `No bundled libraries in ${directory}` };
+    }
+
+    // existsSync follows the link, so a link to a missing file counts as broken
+    const broken = mappings.filter(({ link }) => !fs.existsSync(path.join(directory, link))).map(({ link, target }) => `${link} -> ${target}`);
+    if (broken.length > 0) {
+        return { name, status: 'fail', detail: `Missing or broken: ${broken.join(', ')}. Reload the window to recreate them.` };
+    }
+    return { name, status: 'pass', detail: `${mappings.length} links resolve` };
+}
+
+// Starting piper loads its shared libraries, which is where a broken installation usually shows
+async function checkSharedLibraries(environment: HealthCheckEnvironment, piper: PiperExecutable): Promise<CheckResult> {
+    const name = 'Shared libraries';
+    try {
+        const { code, output } = await runPiperCommand(piper, ['--version'], PROCESS_TIMEOUT_MS);
+
+        const libraryError = output.match(LIBRARY_ERROR);
+        if (libraryError) {
+            const hint = piper.source === 'bundled' && libraryError[0].includes('GLIBC_') ? ` ${GLIBC_HINT}` : '';
+            return { name, status: 'fail', detail: libraryError[0].trim() + hint };
+        }
+        if (code !== 0) {
+            const lastLine = output.trim().split(/\r?\n/).pop();
+            return { name, status: 'warning', detail: `piper --version exited with code ${code}${lastLine ? `: ${lastLine}` : ''}` };
+        }
+        const version = parsePiperVersion(output);
+        return { name, status: 'pass', detail: version ? `Piper ${version} starts` : 'piper starts, its version is unknown' };
+    } catch (error) {
+        // A binary linked against glibc cannot be started at all where its loader does not exist
+        const missingLoader = (error as NodeJS.ErrnoException).code === 'ENOENT' && piper.source === 'bundled' && fs.existsSync(piper.command);
+        return { name, status: 'fail', detail: `Could not start piper: ${errorMessage(error)}${missingLoader ? ` ${GLIBC_HINT}` : ''}` };
+    }
+}
+
+// Piper's phonemizer reads espeak-ng-data from next to the binary, unless piper-tts.espeakDataPath says otherwise
+function checkEspeakData(piper: PiperExecutable): CheckResult {
+    const name = 'espeak-ng data';
+    if (piper.espeakDataPath) {
+        const problem = findEspeakDataProblem(piper.espeakDataPath);
+        return problem
+            ? { name, status: 'fail', detail: `${problem} (piper-tts.espeakDataPath)` }
+            : { name, status: 'pass', detail: piper.espeakDataPath };
+    }
+    if (piper.source === 'command') {
+        return { name, status: 'skipped', detail: 'Left to piper-tts.piperCommand, set piper-tts.espeakDataPath to check it' };
+    }
+
+    const dataPath = path.join(path.dirname(piper.command), 'espeak-ng-data');
+    const problem = findEspeakDataProblem(dataPath);
+    if (problem && piper.source === 'setting') {
+        // Packaged builds usually look for the data where the distribution installs espeak-ng
+        return { name, status: 'warning', detail: `${problem}. Set piper-tts.espeakDataPath if Piper cannot find it.` };
+    }
+    return problem ? { name, status: 'fail', detail: problem } : { name, status: 'pass', detail: dataPath };
+}
+
+function checkVoice(environment: HealthCheckEnvironment): CheckResult {
+    const name = 'Voice model';
+    const { voiceId, modelPath } = environment;
+    const configPath = getVoiceConfigPath(modelPath);
+    if (!fs.existsSync(modelPath)) {
+        return { name, status: 'fail', detail: `${voiceId} is not installed, ${modelPath} does not exist` };
+    }
+    if (!fs.existsSync(configPath)) {
+        return { name, status: 'fail', detail: `${voiceId} has no config, ${configPath} does not exist` };
+    }
+    try {
+        const metadata = parseVoiceConfig(voiceId, JSON.parse(fs.readFileSync(configPath, 'utf8')));
+        return { name, status: 'pass', detail: `${voiceId}: ${getVoiceDetail(metadata)}` };
+    } catch (error) {
+        return { name, status: 'fail', detail: `${configPath} cannot be read: ${errorMessage(error)}` };
+    }
+}
+
+function checkPlayer(environment: HealthCheckEnvironment): CheckResult {
+    const name = 'Audio player';
+    try {
+        const player = environment.getPlayerCommand();
+        if (player.input === 'builtin') {
+            return player.fallbackReason
+                ? { name, status: 'warning', detail: `${player.fallbackReason} Until then the built-in player plays each sentence once it is synthesized.` }
+                : { name, status: 'pass', detail: 'Built-in player, plays each sentence once it is synthesized' };
+        }
+        const executable = findExecutable(player.command);
+        if (!executable) {
+            return { name, status: 'fail', detail: `${player.command} was not found` };
+        }
+        const input = player.input === 'stdin' ? 'streams speech as it is synthesized' : 'plays each sentence once it is synthesized';
+        return { name, status: 'pass', detail: `${executable} ${player.args.join(' ')}`.trim() + `, ${input}` };
+    } catch (error) {
+        return { name, status: 'fail', detail: errorMessage(error) };
+    }
+}
+
+async function checkSynthesis(environment: HealthCheckEnvironment): Promise<CheckResult> {
+    const name = 'Test synthesis';
+    const started = Date.now();
+    try {
+        const { pcm, format } = await withTimeout(environment.synthesize(TEST_SENTENCE), SYNTHESIS_TIMEOUT_MS, 'Synthesis');
+        if (pcm.length === 0) {
+            return { name, status: 'fail', detail: 'Piper produced no audio' };
+        }
+        const seconds = pcm.length / (format.sampleRate * format.channels * format.bitsPerSample / 8);
+        return { name, status: 'pass', detail: `${seconds.toFixed(1)} s of audio at ${format.sampleRate} Hz in ${Date.now() - started} ms` };
+    } catch (error) {
+        return { name, status: 'fail', detail: errorMessage(error) };
+    }
+}
+
+/**
+ * Check everything speech depends on, one after another, reporting each result as it is known. Checks that
+ * cannot work after an earlier failure are skipped.
+ */
+export async function runHealthCheck(environment: HealthCheckEnvironment, onResult?: (result: CheckResult) => void): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+    const record = (result: CheckResult) => {
+        results.push(result);
+        onResult?.(result);
+        return result;
+    };
+    const skip = (name: string, reason: string) => record({ name, status: 'skipped', detail: reason });
+
+    let piper: PiperExecutable | undefined;
+    let binary: CheckResult;
+    try {
+        piper = environment.getPiper();
+        binary = record(checkBinary(environment, piper));
+    } catch (error) {
+        binary = record({ name: 'Piper binary', status: 'fail', detail: errorMessage(error) });
+    }
+    const usable = piper && binary.status !== 'fail' ? piper : undefined;
+
+    if (piper) {
+        record(checkSymlinks(environment, piper));
+    } else {
+        skip('Library links', 'There is no Piper binary');
+    }
+    const libraries = usable
+        ? record(await checkSharedLibraries(environment, usable))
+        : skip('Shared libraries', 'The Piper binary is not usable');
+    if (piper) {
+        record(checkEspeakData(piper));
+    } else {
+        skip('espeak-ng data', 'There is no Piper binary');
+    }
+    const voice = record(checkVoice(environment));
+    record(checkPlayer(environment));
+    if (libraries.status === 'fail' || !usable || voice.status !== 'pass') {
+        skip('Test synthesis', 'Piper or the voice is not usable');
+    } else {
+        record(await checkSynthesis(environment));
+    }
+    return results;
+}
+
+// A Markdown report that can be pasted into an issue as it is
+export function formatHealthReport(results: CheckResult[], details: Record<string, string>): string {
+    const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    return [
+        '# Piper TTS Diagnostics',
+        '',
+        ...Object.entries(details).map(([key, value]) => `- ${key}: ${value}`),
+        '',
+        '| Check | Status | Details |',
+        '| --- | --- | --- |',
+        ...results.map(result => `| ${result.name} | ${STATUS_LABELS[result.status]} | ${escape(result.detail)} |`),
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,105 @@
+// Common function words; together with the characters below they separate Latin-script languages well
+// enough for sentence-sized text without a statistical model
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'this', 'with', 'for', 'you', 'was', 'not', 'be', 'on', 'have', 'what', 'which', 'will', 'can', 'we', 'they', 'from', 'or', 'but', 'if', 'when', 'how'],
+    de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'des', 'auf', 'für', 'im', 'dem', 'auch', 'es', 'wird', 'wir', 'sie', 'ich', 'aber', 'wenn', 'oder', 'noch', 'werden', 'kann', 'hier'],
+    es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'del', 'se', 'no', 'lo', 'como', 'pero', 'más', 'está', 'son', 'al', 'su', 'este', 'esta', 'muy', 'también', 'hay'],
+    fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'ce', 'il', 'elle', 'nous', 'vous', 'sont', 'mais', 'ou', 'cette', 'être', 'aux', 'fait'],
+    it: ['il', 'lo', 'la', 'gli', 'le', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'con', 'del', 'della', 'sono', 'come', 'ma', 'anche', 'questo', 'questa', 'nel', 'alla', 'più', 'essere', 'molto', 'ci', 'se'],
+    pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'um', 'uma', 'do', 'da', 'em', 'para', 'com', 'não', 'no', 'na', 'por', 'mais', 'se', 'como', 'mas', 'são', 'está', 'isso', 'também', 'ao', 'dos', 'das'],
+    nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'die', 'niet', 'in', 'op', 'te', 'met', 'voor', 'zijn', 'er', 'aan', 'ook', 'maar', 'als', 'dit', 'wordt', 'bij', 'wij', 'ze', 'naar', 'om', 'nog', 'kan', 'ik'],
+    pl: ['i', 'w', 'nie', 'na', 'się', 'z', 'jest', 'do', 'to', 'że', 'o', 'jak', 'ale', 'po', 'co', 'tak', 'za', 'od', 'jego', 'przez', 'czy', 'tym', 'być', 'ten', 'są', 'dla', 'już', 'tylko', 'może', 'jej'],
+    cs: ['a', 'je', 'v', 'se', 'na', 'to', 'že', 'z', 've', 'do', 'jsou', 'by', 'jak', 'ale', 'pro', 'si', 'od', 'tak', 'jako', 'po', 'jsem', 'není', 'také', 'být', 'který', 'která', 'které', 'tento', 'už', 'jen'],
+    sv: ['och', 'att', 'det', 'är', 'en', 'som', 'på', 'för', 'av', 'med', 'till', 'den', 'har', 'inte', 'om', 'ett', 'var', 'jag', 'vi', 'de', 'men', 'så', 'kan', 'från', 'eller', 'vid', 'när', 'också', 'hur', 'här'],
+    fi: ['ja', 'on', 'ei', 'se', 'että', 'oli', 'ovat', 'mutta', 'kun', 'tai', 'niin', 'kuin', 'myös', 'joka', 'tämä', 'ole', 'hän', 'me', 'he', 'vain', 'jos', 'nyt', 'sen', 'jo', 'voi', 'vielä', 'siitä', 'mitä', 'kanssa', 'olla'],
+    tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'ne', 'daha', 'ama', 'gibi', 'olarak', 'var', 'değil', 'o', 'ben', 'sen', 'biz', 'en', 'mi', 'kadar', 'sonra', 'her', 'şey', 'olan', 'ise', 'veya', 'yok', 'diye'],
+    ca: ['el', 'la', 'els', 'les', 'de', 'que', 'i', 'a', 'en', 'un', 'una', 'és', 'per', 'amb', 'del', 'no', 'es', 'com', 'però', 'més', 'al', 'aquest', 'aquesta', 'són', 'també', 'hi', 'ho', 'molt', 'seu', 'dels'],
+    ro: ['și', 'în', 'de', 'la', 'cu', 'pe', 'este', 'un', 'o', 'nu', 'că', 'care', 'mai', 'din', 'pentru', 'sunt', 'dar', 'sau', 'ca', 'se', 'al', 'ale', 'lui', 'fost', 'acest', 'această', 'foarte', 'doar', 'fi'],
+    hu: ['a', 'az', 'és', 'hogy', 'nem', 'egy', 'is', 'van', 'meg', 'de', 'csak', 'ez', 'már', 'mint', 'még', 'volt', 'kell', 'vagy', 'ha', 'ki', 'fel', 'el', 'azt', 'lesz', 'nagyon', 'minden', 'igen', 'után', 'itt', 'ott']
+};
+
+// Letters that only (or mostly) occur in one of the languages above
+const DISTINCTIVE_CHARACTERS: Record<string, RegExp> = {
+    de: /[äöüß]/g,
+    es: /[ñ¿¡]/g,
+    fr: /[çêèëîïôœûù]/g,
+    it: /[ìò]/g,
+    pt: /[ãõ]/g,
+    pl: /[łżźśćńąę]/g,
+    cs: /[ěščřžůťď]/g,
+    sv: /[å]/g,
+    tr: /[ğışİ]/g,
+    ro: /[ășțâ]/g,
+    hu: /[őű]/g
+};
+
+// Non-Latin scripts identify the language (family) directly
+const SCRIPTS: [RegExp, (text: string) => string][] = [
+    [/[Ѐ-ӿ]/, text => /[іїєґ]/i.test(text) ? 'uk' : /[әғқңөұүһі]/i.test(text) ? 'kk' : /[ђћџљњ]/i.test(text) ? 'sr' : 'ru'],
+    [/[Ͱ-Ͽ]/, () => 'el'],
+    [/[؀-ۿ]/, text => /[پچژگ]/.test(text) ? 'fa' : 'ar'],
+    [/[֐-׿]/, () => 'he'],
+    [/[぀-ヿ]/, () => 'ja'],
+    [/[가-힯]/, () => 'ko'],
+    [/[一-鿿]/, () => 'zh'],
+    [/[ऀ-ॿ]/, () => 'hi'],
+    [/[Ⴀ-ჿ]/, () => 'ka']
+];
+
+/**
+ * Guess the language family of a piece of text, e.g. "de" for German. Only the `candidates` are
+ * considered when given. Returns undefined when the text is too short or ambiguous to tell.
+ */
+export function detectLanguage(text: string, candidates?: string[]): string | undefined {
+    const allowed = (language: string) => !candidates || candidates.includes(language);
+
+    // Mostly non-Latin text: the script decides
+    const letters = text.match(/\p{L}/gu) || [];
+    const latin = letters.filter(letter => /\p{Script=Latin}/u.test(letter)).length;
+    if (letters.length > 0 && latin < letters.length / 2) {
+        for (const [pattern, pick] of SCRIPTS) {
+            if (pattern.test(text)) {
+                const language = pick(text);
+                return allowed(language) ? language : undefined;
+            }
+        }
+        return undefined;
+    }
+
+    const lower = text.toLowerCase();
+    const words = lower.match(/\p{L}+/gu) || [];
+    const scores: [string, number][] = [];
+    for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+        if (!allowed(language)) {
+            continue;
+        }
+        const set = new Set(stopwords);
+        let score = words.filter(word => set.has(word)).length;
+        const distinctive = DISTINCTIVE_CHARACTERS[language];
+        if (distinctive) {
+            score += 2 * (lower.match(distinctive)?.length ?? 0);
+        }
+        scores.push([language, score]);
+    }
+
+    scores.sort((a, b) => b[1] - a[1]);
+    const [best, second] = scores;
+    if (!best || best[1] === 0 || (second && second[1] === best[1])) {
+        return undefined;
+    }
+    return best[0];
+}
+
+/**
+ * Detect the language of consecutive sentences. Sentences that cannot be detected take the language of
+ * the one before them (or the first detected one at the start); `fallback` is used when nothing can be
+ * detected at all.
+ */
+export function detectSentenceLanguages(sentences: string[], candidates?: string[], fallback?: string): (string | undefined)[] {
+    const detected = sentences.map(sentence => detectLanguage(sentence, candidates));
+    let previous = detected.find(language => language !== undefined) ?? fallback;
+    return detected.map(language => {
+        previous = language ?? previous;
+        return previous;
+    });
+}
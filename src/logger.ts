@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+// The "Piper TTS" output channel, created on first use. Its level is set with "Developer: Set Log Level..."
+export function getLogChannel(): vscode.LogOutputChannel {
+    channel ??= vscode.window.createOutputChannel('Piper TTS', { log: true });
+    return channel;
+}
+
+// Arguments are formatted like console.log's, errors with their stack
+export const log = {
+    trace: (message: string, ...args: unknown[]) => getLogChannel().trace(message, ...args),
+    debug: (message: string, ...args: unknown[]) => getLogChannel().debug(message, ...args),
+    info: (message: string, ...args: unknown[]) => getLogChannel().info(message, ...args),
+    warn: (message: string, ...args: unknown[]) => getLogChannel().warn(message, ...args),
+    error: (message: string | Error, ...args: unknown[]) => getLogChannel().error(message, ...args)
+};
+
+export function disposeLogChannel() {
+    channel?.dispose();
+    channel = undefined;
+}
@@ -0,0 +1,340 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AudioFileFormat } from './audioUtils';
+
+export const NARRATION_MANIFEST_FILE_NAME = 'piper-narration.json';
+export const CHAPTER_INDEX_FILE_NAME = 'chapters.json';
+export const PLAYLIST_FILE_NAME = 'playlist.m3u';
+
+const DEFAULT_OUTPUT_DIRECTORY = 'audio';
+const FORMATS: AudioFileFormat[] = ['wav', 'mp3', 'ogg'];
+// Files read from a folder source, in name order
+const FOLDER_SOURCE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdx'];
+
+// Settings a chapter inherits from the manifest unless it sets its own
+export interface NarrationSettings {
+    // ID of an installed voice; the piper-tts.voice setting when omitted
+    voice?: string;
+    // Speaker name or numeric ID of a multi-speaker voice
+    speaker?: string | number;
+    // Speed multiplier, e.g. 1.2 for 20% faster
+    rate?: number;
+}
+
+export interface NarrationChapter extends NarrationSettings {
+    // Defaults to the first Markdown heading or the name of the first source
+    title?: string;
+    // Files or folders relative to the manifest, read one after another
+    sources: string[];
+    // Audio file name in the output directory; numbered from the title when omitted
+    output?: string;
+}
+
+export interface NarrationManifest extends NarrationSettings {
+    title?: string;
+    // Relative to the manifest, "audio" when omitted
+    outputDirectory?: string;
+    format?: AudioFileFormat;
+    chapters: NarrationChapter[];
+}
+
+export interface NarrationSource {
+    path: string;
+    text: string;
+    // Selects the text preprocessing, so Markdown syntax is not read out
+    languageId: string;
+}
+
+// A chapter with its sources read and its settings resolved
+export interface ResolvedChapter {
+    title: string;
+    sources: NarrationSource[];
+    voice: string;
+    speaker?: string | number;
+    rate: number;
+    format: AudioFileFormat;
+    outputPath: string;
+    // Changes whenever the chapter's audio would change, so unchanged chapters are not rendered again
+    hash: string;
+}
+
+export interface ChapterIndexEntry {
+    title: string;
+    file: string;
+    // Seconds from the start of the first chapter, as if the files were played in order
+    start: number;
+    duration: number;
+    sources: string[];
+    voice: string;
+    speaker?: string | number;
+    rate: number;
+    hash: string;
+}
+
+export interface ChapterIndex {
+    title?: string;
+    chapters: ChapterIndexEntry[];
+}
+
+// Writes the chapter's audio to outputPath and returns its duration in seconds
+export type ChapterRenderer = (chapter: ResolvedChapter, outputPath: string, token: vscode.CancellationToken) => Promise<number>;
+
+export interface RenderNarrationOptions {
+    // Voice of chapters that set none, by the language of their first source
+    getDefaultVoice(languageId: string): string;
+    isVoiceInstalled(voiceId: string): boolean;
+    render: ChapterRenderer;
+    token?: vscode.CancellationToken;
+    onChapterStart?(chapter: ResolvedChapter, index: number, total: number): void;
+}
+
+export interface NarrationResult {
+    outputDirectory: string;
+    rendered: number;
+    skipped: number;
+    total: number;
+    cancelled: boolean;
+}
+
+export class NarrationManifestError extends Error {
+    constructor(manifestPath: string, message: string) {
+        super(`${path.basename(manifestPath)}: ${message}`);
+        this.name = 'NarrationManifestError';
+    }
+}
+
+function isSettingValid(value: unknown, type: 'string' | 'speaker' | 'rate'): boolean {
+    switch (type) {
+        case 'string':
+            return value === undefined || (typeof value === 'string' && value.trim() !== '');
+        case 'speaker':
+            return value === undefined || typeof value === 'number' || (typeof value === 'string' && value.trim() !== '');
+        case 'rate':
+            return value === undefined || (typeof value === 'number' && isFinite(value) && value > 0);
+    }
+}
+
+function validateSettings(manifestPath: string, settings: NarrationSettings, where: string) {
+    if (!isSettingValid(settings.voice, 'string')) {
+        throw new NarrationManifestError(manifestPath, `${where} has an invalid voice`);
+    }
+    if (!isSettingValid(settings.speaker, 'speaker')) {
+        throw new NarrationManifestError(manifestPath, `${where} has an invalid speaker`);
+    }
+    if (!isSettingValid(settings.rate, 'rate')) {
+        throw new NarrationManifestError(manifestPath, `${where} has an invalid rate, use a number above 0 such as 1.2`);
+    }
+}
+
+export function readNarrationManifest(manifestPath: string): NarrationManifest {
+    let manifest: NarrationManifest;
+    try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    } catch (error) {
+        throw new NarrationManifestError(manifestPath, error instanceof Error ? error.message : String(error));
+    }
+
+    if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.chapters) || manifest.chapters.length === 0) {
+        throw new NarrationManifestError(manifestPath, 'there are no chapters');
+    }
+    if (manifest.format !== undefined && !FORMATS.includes(manifest.format)) {
+        throw new NarrationManifestError(manifestPath, `unsupported format "${manifest.format}", use ${FORMATS.join(', ')}`);
+    }
+    validateSettings(manifestPath, manifest, 'the manifest');
+    manifest.chapters.forEach((chapter, index) => {
+        const where = `chapter ${index + 1}`;
+        if (!chapter || !Array.isArray(chapter.sources) || chapter.sources.length === 0 || chapter.sources.some(source => typeof source !== 'string' || !source)) {
+            throw new NarrationManifestError(manifestPath, `${where} needs a list of sources`);
+        }
+        validateSettings(manifestPath, chapter, where);
+    });
+    return manifest;
+}
+
+function getLanguageId(filePath: string): string {
+    return MARKDOWN_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) ? 'markdown' : 'plaintext';
+}
+
+function readSources(manifestPath: string, sources: string[]): NarrationSource[] {
+    const baseDirectory = path.dirname(manifestPath);
+    return sources.flatMap(source => {
+        const sourcePath = path.resolve(baseDirectory, source);
+        if (!fs.existsSync(sourcePath)) {
+            throw new NarrationManifestError(manifestPath, `source "${source}" does not exist`);
+        }
+        const files = fs.statSync(sourcePath).isDirectory()
+            ? fs.readdirSync(sourcePath)
+                .filter(name => FOLDER_SOURCE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+                .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+                .map(name => path.join(sourcePath, name))
+            : [sourcePath];
+        return files.map(file => ({ path: file, text: fs.readFileSync(file, 'utf8'), languageId: getLanguageId(file) }));
+    }).filter(source => /\S/.test(source.text));
+}
+
+function getDefaultTitle(sources: NarrationSource[]): string {
+    const heading = sources[0].languageId === 'markdown' ? sources[0].text.match(/^#{1,6}[ \t]+(.+?)[ \t#]*$/m) : null;
+    return heading ? heading[1] : path.basename(sources[0].path, path.extname(sources[0].path));
+}
+
+// "01-getting-started.mp3"
+function getDefaultOutputName(index: number, title: string, format: AudioFileFormat): string {
+    const slug = title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'chapter';
+    return `${String(index + 1).padStart(2, '0')}-${slug}.${format}`;
+}
+
+function getOutputDirectory(manifestPath: string, manifest: NarrationManifest): string {
+    return path.resolve(path.dirname(manifestPath), manifest.outputDirectory || DEFAULT_OUTPUT_DIRECTORY);
+}
+
+// Paths in the index and playlist are relative and use forward slashes on every platform
+function toRelativePath(from: string, to: string): string {
+    return path.relative(from, to).split(path.sep).join('/');
+}
+
+export function resolveChapters(manifestPath: string, manifest: NarrationManifest, getDefaultVoice: (languageId: string) => string): ResolvedChapter[] {
+    const outputDirectory = getOutputDirectory(manifestPath, manifest);
+    const format = manifest.format ?? 'wav';
+    const outputPaths = new Set<string>();
+
+    return manifest.chapters.map((chapter, index) => {
+        const sources = readSources(manifestPath, chapter.sources);
+        if (sources.length === 0) {
+            throw new NarrationManifestError(manifestPath, `chapter ${index + 1} has no text to read`);
+        }
+
+        const title = chapter.title?.trim() || getDefaultTitle(sources);
+        const outputPath = path.resolve(outputDirectory, chapter.output || getDefaultOutputName(index, title, format));
+        if (outputPaths.has(outputPath)) {
+            throw new NarrationManifestError(manifestPath, `chapter ${index + 1} has the same output file as an earlier chapter`);
+        }
+        outputPaths.add(outputPath);
+
+        const voice = chapter.voice ?? manifest.voice ?? getDefaultVoice(sources[0].languageId);
+        // A chapter's own voice brings its own speaker
+        const speaker = chapter.speaker ?? (chapter.voice ? undefined : manifest.speaker);
+        const rate = chapter.rate ?? manifest.rate ?? 1;
+
+        const hash = crypto.createHash('sha256')
+            .update(JSON.stringify({ texts: sources.map(source => source.text), voice, speaker, rate, format }))
+            .digest('hex');
+        return { title, sources, voice, speaker, rate, format, outputPath, hash };
+    });
+}
+
+export function readChapterIndex(outputDirectory: string): ChapterIndex | undefined {
+    try {
+        const index = JSON.parse(fs.readFileSync(path.join(outputDirectory, CHAPTER_INDEX_FILE_NAME), 'utf8'));
+        return Array.isArray(index?.chapters) ? index : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Extended M3U, which most players show with chapter titles and durations
+export function formatPlaylist(index: ChapterIndex): string {
+    const lines = ['#EXTM3U'];
+    if (index.title) {
+        lines.push(`#PLAYLIST:${index.title}`);
+    }
+    for (const chapter of index.chapters) {
+        lines.push(`#EXTINF:${Math.round(chapter.duration)},${chapter.title}`, chapter.file);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function writeChapterIndex(outputDirectory: string, index: ChapterIndex) {
+    let start = 0;
+    for (const chapter of index.chapters) {
+        chapter.start = Math.round(start * 1000) / 1000;
+        start += chapter.duration;
+    }
+    fs.writeFileSync(path.join(outputDirectory, CHAPTER_INDEX_FILE_NAME), JSON.stringify(index, null, 2) + '\n', 'utf8');
+    fs.writeFileSync(path.join(outputDirectory, PLAYLIST_FILE_NAME), formatPlaylist(index), 'utf8');
+}
+
+/**
+ * Render every chapter of a narration manifest to its own audio file and write the chapter index and
+ * playlist next to them. Chapters whose text and settings have not changed since they were last rendered
+ * are skipped, so a cancelled render continues where it stopped when run again.
+ */
+export async function renderNarrationProject(manifestPath: string, options: RenderNarrationOptions): Promise<NarrationResult> {
+    const manifest = readNarrationManifest(manifestPath);
+    const chapters = resolveChapters(manifestPath, manifest, options.getDefaultVoice);
+
+    // Everything runs offline, so every voice has to be installed before starting
+    const missing = [...new Set(chapters.map(chapter => chapter.voice))].filter(voice => !options.isVoiceInstalled(voice));
+    if (missing.length > 0) {
+        throw new NarrationManifestError(manifestPath, `voice${missing.length > 1 ? 's' : ''} not installed: ${missing.join(', ')}`);
+    }
+
+    const outputDirectory = getOutputDirectory(manifestPath, manifest);
+    fs.mkdirSync(outputDirectory, { recursive: true });
+    const previous = new Map((readChapterIndex(outputDirectory)?.chapters ?? []).map(entry => [entry.file, entry]));
+    const token = options.token ?? new vscode.CancellationTokenSource().token;
+
+    const createEntry = (chapter: ResolvedChapter, duration: number): ChapterIndexEntry => ({
+        title: chapter.title,
+        file: toRelativePath(outputDirectory, chapter.outputPath),
+        start: 0,
+        duration: Math.round(duration * 1000) / 1000,
+        sources: chapter.sources.map(source => toRelativePath(path.dirname(manifestPath), source.path)),
+        voice: chapter.voice,
+        speaker: chapter.speaker,
+        rate: chapter.rate,
+        hash: chapter.hash
+    });
+    // The entry of a chapter rendered before with the same text and settings
+    const findRendered = (chapter: ResolvedChapter): ChapterIndexEntry | undefined => {
+        const existing = previous.get(toRelativePath(outputDirectory, chapter.outputPath));
+        return existing?.hash === chapter.hash && fs.existsSync(chapter.outputPath) ? createEntry(chapter, existing.duration) : undefined;
+    };
+
+    const entries: (ChapterIndexEntry | undefined)[] = chapters.map(findRendered);
+    const writeIndex = () => writeChapterIndex(outputDirectory, {
+        title: manifest.title,
+        chapters: entries.filter((entry): entry is ChapterIndexEntry => entry !== undefined)
+    });
+    const result: NarrationResult = { outputDirectory, rendered: 0, skipped: entries.filter(entry => entry).length, total: chapters.length, cancelled: false };
+
+    for (const [position, chapter] of chapters.entries()) {
+        if (entries[position]) {
+            continue;
+        }
+        if (token.isCancellationRequested) {
+            result.cancelled = true;
+            break;
+        }
+
+        options.onChapterStart?.(chapter, position, chapters.length);
+        fs.mkdirSync(path.dirname(chapter.outputPath), { recursive: true });
+        // Rendered next to the chapter and moved into place when complete, so a cancelled chapter leaves no file behind
+        const partialPath = `${chapter.outputPath}.partial`;
+        try {
+            const duration = await options.render(chapter, partialPath, token);
+            if (token.isCancellationRequested) {
+                result.cancelled = true;
+                break;
+            }
+            fs.renameSync(partialPath, chapter.outputPath);
+            entries[position] = createEntry(chapter, duration);
+            result.rendered++;
+        } catch (error) {
+            if (token.isCancellationRequested) {
+                result.cancelled = true;
+                break;
+            }
+            throw error;
+        } finally {
+            fs.rmSync(partialPath, { force: true });
+            // Written after every chapter so an interrupted render keeps what it finished
+            writeIndex();
+        }
+    }
+
+    writeIndex();
+    return result;
+}
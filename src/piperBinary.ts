@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { findExecutable, splitCommandLine } from './audioPlayer';
+import { getLinuxArchitecture } from './symlinkUtils';
+
+// Where the Piper in use comes from, in order of precedence
+export type PiperSource = 'command' | 'setting' | 'bundled';
+
+// Replaced in piper-tts.piperCommand with the arguments for Piper, which are appended when it is missing
+export const PIPER_ARGS_PLACEHOLDER = '${args}';
+
+export interface PiperExecutable {
+    source: PiperSource;
+    // The Piper binary, or the program piper-tts.piperCommand starts
+    command: string;
+    // The rest of piper-tts.piperCommand, empty for a binary
+    args: string[];
+    // Passed as --espeak_data; without it Piper looks for espeak-ng-data next to its binary
+    espeakDataPath: string | undefined;
+    cwd: string | undefined;
+    // Why piper-tts.piperPath was not used, when it was set but the bundled binary is used instead
+    fallbackReason?: string;
+}
+
+export class PiperNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PiperNotFoundError';
+    }
+}
+
+const VERSION_TIMEOUT_MS = 10000;
+
+const SOURCE_DESCRIPTIONS: Record<PiperSource, string> = {
+    command: 'piper-tts.piperCommand',
+    setting: 'piper-tts.piperPath',
+    bundled: 'bundled'
+};
+
+function expandHome(file: string): string {
+    return file === '~' || file.startsWith('~/') || file.startsWith('~\\') ? path.join(os.homedir(), file.slice(1)) : file;
+}
+
+// The binary shipped with the extension for this platform, undefined where there is none
+export function getBundledPiperPath(extensionPath: string): string | undefined {
+    switch (os.platform()) {
+        case 'win32':
+            return path.join(extensionPath, 'piper', 'windows_amd64', 'piper.exe');
+        case 'darwin':
+            return path.join(extensionPath, 'piper', os.arch() === 'arm64' ? 'macos_aarch64' : 'macos_x64', 'piper');
+        case 'linux': {
+            const architecture = getLinuxArchitecture();
+            return architecture ? path.join(extensionPath, 'piper', architecture, 'piper') : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * The Piper to run: piper-tts.piperCommand, else piper-tts.piperPath, else the bundled binary. A piperPath
+ * that cannot be found falls back to the bundled binary, with the reason in fallbackReason. Throws
+ * PiperNotFoundError when nothing is configured and no binary is bundled for this platform.
+ */
+export function resolvePiperExecutable(extensionPath: string): PiperExecutable {
+    const config = vscode.workspace.getConfiguration('piper-tts');
+    const espeakDataSetting = config.get<string>('espeakDataPath', '').trim();
+    const espeakDataPath = espeakDataSetting ? path.resolve(expandHome(espeakDataSetting)) : undefined;
+
+    const [command, ...args] = splitCommandLine(config.get<string>('piperCommand', ''));
+    if (command) {
+        return { source: 'command', command: expandHome(command), args, espeakDataPath, cwd: undefined };
+    }
+
+    let fallbackReason: string | undefined;
+    const piperPath = config.get<string>('piperPath', '').trim();
+    if (piperPath) {
+        // A bare name such as "piper" is looked up on PATH
+        const found = findExecutable(expandHome(piperPath));
+        if (found) {
+            return { source: 'setting', command: found, args: [], espeakDataPath, cwd: path.dirname(found) };
+        }
+        fallbackReason = `${piperPath} (piper-tts.piperPath) was not found or is not executable`;
+    }
+
+    const bundledPath = getBundledPiperPath(extensionPath);
+    if (!bundledPath) {
+        const reason = fallbackReason ? `${fallbackReason}, and there` : 'There';
+        throw new PiperNotFoundError(`${reason} is no bundled Piper for ${os.platform()} ${os.arch()}. Install Piper and set piper-tts.piperPath to it.`);
+    }
+    return { source: 'bundled', command: bundledPath, args: [], espeakDataPath, cwd: path.dirname(bundledPath), fallbackReason };
+}
+
+// "/usr/bin/piper (piper-tts.piperPath)"
+export function describePiperExecutable(executable: PiperExecutable): string {
+    return `${[executable.command, ...executable.args].join(' ')} (${SOURCE_DESCRIPTIONS[executable.source]})`;
+}
+
+// Whether the program to start exists, without starting it
+export function isPiperInstalled(executable: PiperExecutable): boolean {
+    return executable.source === 'command' ? findExecutable(executable.command) !== undefined : fs.existsSync(executable.command);
+}
+
+export function assertPiperInstalled(executable: PiperExecutable) {
+    if (!isPiperInstalled(executable)) {
+        throw new PiperNotFoundError(executable.source === 'command'
+            ? `${executable.command} (piper-tts.piperCommand) was not found`
+            : `Piper executable not found at: ${executable.command}`);
+    }
+}
+
+// The arguments to start executable.command with, so that Piper receives piperArgs
+export function getPiperCommandArgs(executable: PiperExecutable, piperArgs: string[]): string[] {
+    const args = executable.espeakDataPath ? ['--espeak_data', executable.espeakDataPath, ...piperArgs] : piperArgs;
+    const index = executable.args.indexOf(PIPER_ARGS_PLACEHOLDER);
+    return index < 0
+        ? [...executable.args, ...args]
+        : [...executable.args.slice(0, index), ...args, ...executable.args.slice(index + 1)];
+}
+
+// Undefined when the folder holds espeak-ng's data, otherwise what is wrong with it
+export function findEspeakDataProblem(dataPath: string): string | undefined {
+    if (!fs.existsSync(dataPath)) {
+        return `Not found at ${dataPath}`;
+    }
+    if (!fs.existsSync(path.join(dataPath, 'phontab'))) {
+        return `${dataPath} is incomplete, phontab is missing`;
+    }
+    return undefined;
+}
+
+// Run Piper with arguments that make it exit by itself, such as --help, and collect its stdout and stderr
+export function runPiperCommand(executable: PiperExecutable, args: string[], timeoutMs: number): Promise<{ code: number | null, output: string }> {
+    return new Promise((resolve, reject) => {
+        const piper = spawn(executable.command, getPiperCommandArgs(executable, args), { cwd: executable.cwd, windowsHide: true });
+        const timer = setTimeout(() => {
+            piper.kill();
+            reject(new Error(`piper ${args.join(' ')} did not finish within ${timeoutMs / 1000} seconds`));
+        }, timeoutMs);
+        let output = '';
+        piper.stdout.on('data', (data) => {
+            output += data.toString();
+        });
+        piper.stderr.on('data', (data) => {
+            output += data.toString();
+        });
+        piper.stdin.on('error', () => {});
+        piper.on('error', (error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+        piper.on('close', (code) => {
+            clearTimeout(timer);
+            resolve({ code, output });
+        });
+        piper.stdin.end();
+    });
+}
+
+// Piper 1.x prints just its version, e.g. "1.2.0"
+export function parsePiperVersion(output: string): string | undefined {
+    return output.match(/\b\d+\.\d+(?:\.\d+)?\b/)?.[0];
+}
+
+// The version from piper --version, undefined when Piper does not report one
+export async function getPiperVersion(executable: PiperExecutable): Promise<string | undefined> {
+    const { code, output } = await runPiperCommand(executable, ['--version'], VERSION_TIMEOUT_MS);
+    return code === 0 ? parsePiperVersion(output) : undefined;
+}
+
+export interface PiperValidation {
+    executable: PiperExecutable;
+    version: string | undefined;
+    problems: string[];
+}
+
+// Check the Piper settings by starting the configured Piper, for feedback as soon as they change
+export async function validatePiperSettings(extensionPath: string): Promise<PiperValidation> {
+    const executable = resolvePiperExecutable(extensionPath);
+    const problems: string[] = [];
+    if (executable.fallbackReason) {
+        problems.push(`${executable.fallbackReason}, the bundled Piper is used instead.`);
+    }
+    if (executable.espeakDataPath) {
+        const problem = findEspeakDataProblem(executable.espeakDataPath);
+        if (problem) {
+            problems.push(`piper-tts.espeakDataPath: ${problem}.`);
+        }
+    }
+
+    let version: string | undefined;
+    try {
+        version = await getPiperVersion(executable);
+        if (!version) {
+            problems.push(`${describePiperExecutable(executable)} did not report a version for --version, it may not be Piper.`);
+        }
+    } catch (error) {
+        problems.push(`Could not start ${describePiperExecutable(executable)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { executable, version, problems };
+}
@@ -0,0 +1,350 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { Readable } from 'stream';
+import { PcmFormat, parseWav } from './audioUtils';
+import { PcmStream } from './playbackManager';
+import { splitSentences } from './sentenceSplitter';
+import { PiperExecutable, getPiperCommandArgs } from './piperBinary';
+import { log } from './logger';
+
+export interface PiperWorkerOptions {
+    piper: PiperExecutable;
+    // Model and synthesis arguments; changing any of them needs a new process
+    args: string[];
+}
+
+// Synthesis straight from Piper, which knows whether all of the audio was produced
+export interface PiperPcmStream extends PcmStream {
+    // Resolves true once Piper has produced the whole text, false if it was cancelled, killed or failed
+    completed: Promise<boolean>;
+}
+
+interface WorkerJob {
+    request: { text: string, speaker_id?: number, output_file: string };
+    attempts: number;
+    resolve(pcm: Buffer): void;
+    reject(error: unknown): void;
+}
+
+// A job is retried once on a fresh process if piper crashes while working on it
+const MAX_ATTEMPTS = 2;
+
+let nextOutputId = 0;
+
+// Only the end of piper's stderr is kept for error messages
+const MAX_STDERR_LENGTH = 4000;
+
+// Piper's last words on stderr explain most failures, e.g. a missing shared library or a broken model
+export function createPiperExitError(code: number | null, stderr: string): Error {
+    const lines = stderr.split(/\r?\n/).map(line => line.trim()).filter(line => line);
+    const reason = lines.slice(-3).join(' ');
+    return new Error(`Piper process exited with code: ${code}${reason ? `. ${reason}` : ''}`);
+}
+
+export function appendStderr(stderr: string, data: string): string {
+    const combined = stderr + data;
+    return combined.length > MAX_STDERR_LENGTH ? combined.slice(-MAX_STDERR_LENGTH) : combined;
+}
+
+// A long-lived piper process fed one JSON line per sentence, so the model is only loaded once
+export class PiperWorker {
+    private process: ChildProcess | undefined;
+    private readonly jobs: WorkerJob[] = [];
+    private current: WorkerJob | undefined;
+    private stdoutBuffer = '';
+    private idleTimer: NodeJS.Timeout | undefined;
+    private disposed = false;
+
+    constructor(
+        readonly key: string,
+        private readonly options: PiperWorkerOptions,
+        private readonly outputDir: string,
+        private readonly idleTimeoutMs: number
+    ) {}
+
+    get isRunning(): boolean {
+        return this.process !== undefined;
+    }
+
+    // Whether this worker loads the model, which keeps the file open while the process runs
+    hasModel(modelPath: string): boolean {
+        const index = this.options.args.indexOf('--model');
+        return index >= 0 && path.resolve(this.options.args[index + 1]) === path.resolve(modelPath);
+    }
+
+    // Start the process ahead of time so the model is loaded before the first request
+    warmUp() {
+        if (!this.disposed && !this.process) {
+            this.spawnProcess();
+            this.scheduleIdleShutdown();
+        }
+    }
+
+    synthesize(text: string, speakerId?: number): Promise<Buffer> {
+        if (this.disposed) {
+            return Promise.reject(new Error('Piper worker has been shut down'));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.jobs.push({
+                request: {
+                    text,
+                    ...(speakerId !== undefined ? { speaker_id: speakerId } : {}),
+                    output_file: path.join(this.outputDir, `${process.pid}-${nextOutputId++}.wav`)
+                },
+                attempts: 0,
+                resolve,
+                reject
+            });
+            this.sendNext();
+        });
+    }
+
+    dispose() {
+        this.disposed = true;
+        this.clearIdleTimer();
+
+        const jobs = this.current ? [this.current, ...this.jobs] : [...this.jobs];
+        this.current = undefined;
+        this.jobs.length = 0;
+        for (const job of jobs) {
+            job.reject(new Error('Piper worker has been shut down'));
+        }
+
+        this.stopProcess();
+    }
+
+    private spawnProcess() {
+        const args = getPiperCommandArgs(this.options.piper, [...this.options.args, '--json-input']);
+        log.info('Starting Piper worker:', this.options.piper.command, args.join(' '));
+        const piper = spawn(this.options.piper.command, args, {
+            cwd: this.options.piper.cwd,
+            env: { ...process.env },
+            windowsHide: true
+        });
+        this.process = piper;
+        this.stdoutBuffer = '';
+        let stderr = '';
+
+        piper.stdout.setEncoding('utf8');
+        piper.stdout.on('data', (data: string) => {
+            this.stdoutBuffer += data;
+            let newline: number;
+            while ((newline = this.stdoutBuffer.indexOf('\n')) >= 0) {
+                const line = this.stdoutBuffer.slice(0, newline).trim();
+                this.stdoutBuffer = this.stdoutBuffer.slice(newline + 1);
+                if (line) {
+                    this.onOutputLine(line);
+                }
+            }
+        });
+
+        piper.stderr.on('data', (data) => {
+            log.debug('Piper worker output:', data.toString());
+            stderr = appendStderr(stderr, data.toString());
+        });
+
+        piper.stdin.on('error', (error) => {
+            log.error('Piper worker input error:', error);
+        });
+
+        piper.on('error', (error) => {
+            log.error('Piper worker error:', error);
+            this.onProcessExit(piper, error);
+        });
+
+        piper.on('close', (code) => {
+            log.debug('Piper worker exited with code:', code);
+            this.onProcessExit(piper, createPiperExitError(code, stderr));
+        });
+    }
+
+    private stopProcess() {
+        const piper = this.process;
+        this.process = undefined;
+        if (piper && piper.exitCode === null && !piper.killed) {
+            piper.kill();
+        }
+    }
+
+    private sendNext() {
+        if (this.current || this.disposed) {
+            return;
+        }
+
+        const job = this.jobs.shift();
+        if (!job) {
+            this.scheduleIdleShutdown();
+            return;
+        }
+
+        this.clearIdleTimer();
+        if (!this.process) {
+            this.spawnProcess();
+        }
+
+        this.current = job;
+        job.attempts++;
+        this.process!.stdin!.write(JSON.stringify(job.request) + '\n');
+    }
+
+    // Piper prints the path of each WAV file it finishes
+    private onOutputLine(line: string) {
+        const job = this.current;
+        if (!job || path.resolve(line) !== path.resolve(job.request.output_file)) {
+            log.debug('Piper worker output:', line);
+            return;
+        }
+        this.current = undefined;
+
+        const outputFile = job.request.output_file;
+        fs.promises.readFile(outputFile)
+            .then(wav => job.resolve(parseWav(wav).data), error => job.reject(error))
+            .finally(() => fs.unlink(outputFile, () => {}));
+
+        this.sendNext();
+    }
+
+    private onProcessExit(piper: ChildProcess, error: Error) {
+        // Exits of processes we stopped on purpose are expected
+        if (piper !== this.process) {
+            return;
+        }
+        this.process = undefined;
+
+        const job = this.current;
+        this.current = undefined;
+        if (job) {
+            if (job.attempts < MAX_ATTEMPTS && !this.disposed) {
+                log.warn('Piper worker crashed, restarting');
+                this.jobs.unshift(job);
+            } else {
+                job.reject(error);
+            }
+        }
+
+        this.sendNext();
+    }
+
+    private scheduleIdleShutdown() {
+        this.clearIdleTimer();
+        if (this.idleTimeoutMs <= 0 || !this.process) {
+            return;
+        }
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = undefined;
+            if (!this.current && this.jobs.length === 0) {
+                log.debug('Stopping idle Piper worker');
+                this.stopProcess();
+            }
+        }, this.idleTimeoutMs);
+    }
+
+    private clearIdleTimer() {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+    }
+}
+
+function getWorkerKey(options: PiperWorkerOptions): string {
+    return JSON.stringify([options.piper.command, ...getPiperCommandArgs(options.piper, options.args)]);
+}
+
+// Keeps a single worker for the active voice and synthesis settings
+export class PiperWorkerPool implements vscode.Disposable {
+    private worker: PiperWorker | undefined;
+    private outputDir: string | undefined;
+
+    constructor(private readonly getIdleTimeoutMs: () => number) {}
+
+    // Whether the running worker was started with these options, so using it does not replace it
+    hasWorker(options: PiperWorkerOptions): boolean {
+        return this.worker?.key === getWorkerKey(options);
+    }
+
+    hasModel(modelPath: string): boolean {
+        return this.worker?.hasModel(modelPath) ?? false;
+    }
+
+    // Stop the worker if it has the model loaded, so the file can be replaced or deleted
+    releaseModel(modelPath: string) {
+        if (this.worker?.hasModel(modelPath)) {
+            this.worker.dispose();
+            this.worker = undefined;
+        }
+    }
+
+    getWorker(options: PiperWorkerOptions): PiperWorker {
+        const key = getWorkerKey(options);
+        if (this.worker?.key !== key) {
+            // Only one model stays loaded, switching voice or settings replaces the worker
+            this.worker?.dispose();
+            this.worker = new PiperWorker(key, options, this.getOutputDir(), this.getIdleTimeoutMs());
+        }
+        return this.worker;
+    }
+
+    // Synthesize sentence by sentence so playback can start after the first one
+    synthesize(options: PiperWorkerOptions, text: string, speakerId: number | undefined, format: PcmFormat): PiperPcmStream {
+        const worker = this.getWorker(options);
+        const sentences = splitSentences(text).map(sentence => sentence.text);
+        if (sentences.length === 0) {
+            sentences.push(text);
+        }
+
+        const stream = new Readable({ read() {} });
+        let cancelled = false;
+
+        const done = new Promise<void>((resolve, reject) => {
+            stream.on('end', resolve);
+
+            (async () => {
+                for (const sentence of sentences) {
+                    // Sentences are sent one at a time, so a cancelled request stops holding up the worker
+                    if (cancelled) {
+                        break;
+                    }
+                    const pcm = await worker.synthesize(sentence, speakerId);
+                    if (!cancelled) {
+                        stream.push(pcm);
+                    }
+                }
+                stream.push(null);
+            })().catch(error => {
+                stream.push(null);
+                reject(error);
+            });
+        });
+
+        return {
+            format,
+            stream,
+            done,
+            completed: done.then(() => !cancelled, () => false),
+            cancel: () => {
+                cancelled = true;
+            }
+        };
+    }
+
+    dispose() {
+        this.worker?.dispose();
+        this.worker = undefined;
+        if (this.outputDir) {
+            fs.rm(this.outputDir, { recursive: true, force: true }, () => {});
+            this.outputDir = undefined;
+        }
+    }
+
+    private getOutputDir(): string {
+        if (!this.outputDir) {
+            this.outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'piper-tts-'));
+        }
+        return this.outputDir;
+    }
+}
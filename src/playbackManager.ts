@@ -0,0 +1,434 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import { Readable } from 'stream';
+import { PcmFormat, pcmToWav } from './audioUtils';
+import { BuiltinPlayback, PlayerCommand, WAV_FILE_PLACEHOLDER } from './audioPlayer';
+import { PlaybackQueueSnapshot, PlaybackState, QueuedUtterance, ReadTextOptions } from './api';
+import { log } from './logger';
+
+// Raw PCM produced by a running synthesis
+export interface PcmStream {
+    format: PcmFormat;
+    stream: Readable;
+    // Resolves once synthesis has finished, rejects if it failed
+    done: Promise<void>;
+    cancel(): void;
+}
+
+// Options of a queued utterance, with the pauses SSML <break> elements put around it
+export interface SpeechOptions extends ReadTextOptions {
+    // Seconds of silence before and after the speech
+    pauseBefore?: number;
+    pauseAfter?: number;
+}
+
+// Supplies the synthesis and player processes so the manager stays independent of how they are located
+export interface PlaybackBackend {
+    synthesize(text: string, options: SpeechOptions): PcmStream;
+    getPlayerCommand(format: PcmFormat): PlayerCommand;
+    // Plays WAV audio when getPlayerCommand chooses the built-in player
+    playWav(wav: Buffer): BuiltinPlayback;
+}
+
+// How a queued utterance left the queue: played to the end, skipped by the user, or dropped by stop/clear
+export type UtteranceOutcome = 'completed' | 'skipped' | 'cancelled';
+
+export interface QueuedUtteranceHandle {
+    id: number;
+    done: Promise<UtteranceOutcome>;
+}
+
+interface QueueEntry {
+    utterance: QueuedUtterance;
+    options: SpeechOptions;
+    resolve(outcome: UtteranceOutcome): void;
+    reject(error: unknown): void;
+}
+
+// Plays a single utterance, keeping the synthesized PCM so playback can be paused and resumed
+class UtterancePlayback {
+    private readonly source: PcmStream;
+    private readonly chunks: Buffer[] = [];
+    private bufferedBytes = 0;
+    private player: ChildProcess | undefined;
+    private builtinPlayback: BuiltinPlayback | undefined;
+    private playerInput: PlayerCommand['input'] = 'stdin';
+    // Offset to start a file or built-in player from once synthesis has finished
+    private pendingStartOffset: number | undefined;
+    private playerStartOffset = 0;
+    private playerStartedAt: number | undefined;
+    private resumeOffset = 0;
+    private synthesisDone = false;
+    private finished = false;
+    private paused = false;
+
+    constructor(
+        private readonly backend: PlaybackBackend,
+        entry: QueueEntry,
+        private readonly onFinished: (outcome: UtteranceOutcome, error?: unknown) => void
+    ) {
+        this.source = backend.synthesize(entry.utterance.text, entry.options);
+
+        this.source.stream.on('data', (chunk: Buffer) => {
+            this.chunks.push(chunk);
+            this.bufferedBytes += chunk.length;
+            if (this.player && !this.paused && this.playerInput === 'stdin') {
+                this.writeToPlayer(this.player, chunk);
+            }
+        });
+
+        this.source.done.then(() => {
+            this.synthesisDone = true;
+            if (this.bufferedBytes === 0) {
+                this.finish();
+            } else if (this.pendingStartOffset !== undefined && !this.paused) {
+                try {
+                    this.startPlayer(this.pendingStartOffset);
+                } catch (error) {
+                    this.finish(error);
+                }
+            } else if (this.player && !this.paused) {
+                this.player.stdin?.end();
+            }
+        }, (error) => this.finish(error));
+
+        try {
+            this.startPlayer(0);
+        } catch (error) {
+            this.source.cancel();
+            throw error;
+        }
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    pause() {
+        if (this.paused || this.finished) {
+            return;
+        }
+        this.paused = true;
+        this.resumeOffset = this.pendingStartOffset ?? this.getPlayedBytes();
+        this.pendingStartOffset = undefined;
+
+        // The player cannot be paused portably, so stop it and start a new one from the same offset on resume
+        this.stopPlayer();
+    }
+
+    resume() {
+        if (!this.paused || this.finished) {
+            return;
+        }
+        this.paused = false;
+        try {
+            this.startPlayer(this.resumeOffset);
+        } catch (error) {
+            this.finish(error);
+        }
+    }
+
+    cancel(outcome: UtteranceOutcome) {
+        this.finish(undefined, outcome);
+    }
+
+    private startPlayer(offset: number) {
+        const playerCommand = this.backend.getPlayerCommand(this.source.format);
+        this.playerInput = playerCommand.input;
+        if (playerCommand.input === 'builtin') {
+            this.startBuiltinPlayer(offset);
+            return;
+        }
+        const { command, args, input } = playerCommand;
+        if (input === 'wavFile') {
+            this.startFilePlayer(command, args, offset);
+            return;
+        }
+
+        const player = spawn(command, args);
+        this.player = player;
+        this.playerStartOffset = offset;
+        this.playerStartedAt = undefined;
+        this.watchPlayer(player);
+
+        if (offset < this.bufferedBytes) {
+            this.writeToPlayer(player, Buffer.concat(this.chunks).subarray(offset));
+        }
+        if (this.synthesisDone) {
+            player.stdin.end();
+        }
+    }
+
+    // Players that only accept files get a WAV of everything from the offset once synthesis has finished
+    private startFilePlayer(command: string, args: string[], offset: number) {
+        if (!this.synthesisDone) {
+            this.pendingStartOffset = offset;
+            return;
+        }
+        this.pendingStartOffset = undefined;
+
+        const wavPath = path.join(os.tmpdir(), `piper-tts-${process.pid}-${Date.now()}-${offset}.wav`);
+        fs.writeFileSync(wavPath, pcmToWav(Buffer.concat(this.chunks).subarray(offset), this.source.format));
+
+        const player = spawn(command, args.map(arg => arg.split(WAV_FILE_PLACEHOLDER).join(wavPath)));
+        this.player = player;
+        this.playerStartOffset = offset;
+        this.playerStartedAt = Date.now();
+        player.on('close', () => fs.rm(wavPath, { force: true }, () => {}));
+        player.stdin.end();
+        this.watchPlayer(player);
+    }
+
+    // Like a file player, the built-in player gets a WAV of everything from the offset once synthesis has finished
+    private startBuiltinPlayer(offset: number) {
+        if (!this.synthesisDone) {
+            this.pendingStartOffset = offset;
+            return;
+        }
+        this.pendingStartOffset = undefined;
+
+        const playback = this.backend.playWav(pcmToWav(Buffer.concat(this.chunks).subarray(offset), this.source.format));
+        this.builtinPlayback = playback;
+        this.playerStartOffset = offset;
+        this.playerStartedAt = Date.now();
+        playback.done.then(() => {
+            if (this.builtinPlayback === playback) {
+                this.builtinPlayback = undefined;
+                this.finish();
+            }
+        }, (error) => {
+            // Playback stopped by pause or cancel is not reported
+            if (this.builtinPlayback === playback) {
+                log.error('Playback error:', error);
+                this.builtinPlayback = undefined;
+                this.finish(error);
+            }
+        });
+    }
+
+    private stopPlayer() {
+        const player = this.player;
+        this.player = undefined;
+        player?.kill();
+
+        const playback = this.builtinPlayback;
+        this.builtinPlayback = undefined;
+        playback?.stop();
+    }
+
+    private watchPlayer(player: ChildProcess) {
+        player.stdin?.on('error', (error) => {
+            // EPIPE is expected when the player is stopped while audio is still being written
+            log.debug('Player input closed:', error.message);
+        });
+
+        player.stderr?.on('data', (data) => {
+            log.debug('Player error output:', data.toString());
+        });
+
+        player.on('error', (error) => {
+            log.error('Playback error:', error);
+            if (this.player === player) {
+                this.finish(error);
+            }
+        });
+
+        player.on('close', (code) => {
+            log.debug('Player process exited with code:', code);
+            // Players replaced by pause/resume or stopped by cancel are not reported
+            if (this.player !== player) {
+                return;
+            }
+            this.player = undefined;
+            if (code === 0) {
+                this.finish();
+            } else {
+                this.finish(new Error(`Player process exited with code: ${code}`));
+            }
+        });
+    }
+
+    private writeToPlayer(player: ChildProcess, data: Buffer) {
+        if (this.playerStartedAt === undefined) {
+            this.playerStartedAt = Date.now();
+        }
+        player.stdin?.write(data);
+    }
+
+    // Estimate how far the player got from wall-clock time, since players do not report their position
+    private getPlayedBytes(): number {
+        if (this.playerStartedAt === undefined) {
+            return this.playerStartOffset;
+        }
+        const { sampleRate, channels, bitsPerSample } = this.source.format;
+        const blockAlign = channels * bitsPerSample / 8;
+        const elapsedSeconds = (Date.now() - this.playerStartedAt) / 1000;
+        const played = this.playerStartOffset + Math.floor(elapsedSeconds * sampleRate) * blockAlign;
+        return Math.min(played, this.bufferedBytes - this.bufferedBytes % blockAlign);
+    }
+
+    private finish(error?: unknown, outcome: UtteranceOutcome = 'completed') {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.source.cancel();
+        this.stopPlayer();
+
+        this.onFinished(outcome, error);
+    }
+}
+
+export class PlaybackManager implements vscode.Disposable {
+    private readonly queue: QueueEntry[] = [];
+    private current: { entry: QueueEntry, playback: UtterancePlayback } | undefined;
+    private nextId = 1;
+
+    private readonly onDidChangeQueueEmitter = new vscode.EventEmitter<PlaybackQueueSnapshot>();
+    readonly onDidChangeQueue = this.onDidChangeQueueEmitter.event;
+
+    constructor(private readonly backend: PlaybackBackend) {}
+
+    get state(): PlaybackState {
+        if (!this.current) {
+            return 'idle';
+        }
+        return this.current.playback.isPaused ? 'paused' : 'playing';
+    }
+
+    // Resolves when the utterance has been played, skipped or cleared; rejects if synthesis or playback failed
+    enqueue(text: string, options: SpeechOptions = {}): Promise<void> {
+        return this.queueUtterance(text, options).done.then(() => undefined);
+    }
+
+    // Like enqueue, but exposes the utterance ID and how it left the queue
+    queueUtterance(text: string, options: SpeechOptions = {}): QueuedUtteranceHandle {
+        const id = this.nextId++;
+        const done = new Promise<UtteranceOutcome>((resolve, reject) => {
+            this.queue.push({
+                utterance: { id, text },
+                options,
+                resolve,
+                reject
+            });
+        });
+        this.playNext();
+        this.fireQueueChanged();
+        return { id, done };
+    }
+
+    // Interrupt everything and play the text straight away
+    playNow(text: string, options: SpeechOptions = {}): Promise<void> {
+        this.stop();
+        return this.enqueue(text, options);
+    }
+
+    pause() {
+        if (this.state === 'playing') {
+            this.current?.playback.pause();
+            this.fireQueueChanged();
+        }
+    }
+
+    resume() {
+        if (this.state === 'paused') {
+            this.current?.playback.resume();
+            this.fireQueueChanged();
+        }
+    }
+
+    togglePause() {
+        if (this.state === 'paused') {
+            this.resume();
+        } else {
+            this.pause();
+        }
+    }
+
+    skip() {
+        this.current?.playback.cancel('skipped');
+    }
+
+    clearQueue() {
+        const cleared = this.queue.splice(0, this.queue.length);
+        for (const entry of cleared) {
+            entry.resolve('cancelled');
+        }
+        if (cleared.length > 0) {
+            this.fireQueueChanged();
+        }
+    }
+
+    stop() {
+        this.clearQueue();
+        this.current?.playback.cancel('cancelled');
+    }
+
+    // Drop the given utterances from the queue, stopping the current one if it is among them
+    cancel(ids: number[]) {
+        const removed: QueueEntry[] = [];
+        for (let index = this.queue.length - 1; index >= 0; index--) {
+            if (ids.includes(this.queue[index].utterance.id)) {
+                removed.push(...this.queue.splice(index, 1));
+            }
+        }
+        for (const entry of removed) {
+            entry.resolve('cancelled');
+        }
+        if (removed.length > 0) {
+            this.fireQueueChanged();
+        }
+
+        if (this.current && ids.includes(this.current.entry.utterance.id)) {
+            this.current.playback.cancel('cancelled');
+        }
+    }
+
+    getSnapshot(): PlaybackQueueSnapshot {
+        return {
+            state: this.state,
+            current: this.current ? { ...this.current.entry.utterance } : undefined,
+            pending: this.queue.map(entry => ({ ...entry.utterance }))
+        };
+    }
+
+    dispose() {
+        this.stop();
+        this.onDidChangeQueueEmitter.dispose();
+    }
+
+    private playNext() {
+        while (!this.current && this.queue.length > 0) {
+            const entry = this.queue.shift()!;
+            try {
+                const playback = new UtterancePlayback(this.backend, entry, (outcome, error) => this.onUtteranceFinished(entry, outcome, error));
+                this.current = { entry, playback };
+            } catch (error) {
+                log.error('Error starting playback:', error);
+                entry.reject(error);
+            }
+        }
+    }
+
+    private onUtteranceFinished(entry: QueueEntry, outcome: UtteranceOutcome, error?: unknown) {
+        if (this.current?.entry === entry) {
+            this.current = undefined;
+        }
+
+        if (error) {
+            entry.reject(error);
+        } else {
+            entry.resolve(outcome);
+        }
+
+        this.playNext();
+        this.fireQueueChanged();
+    }
+
+    private fireQueueChanged() {
+        this.onDidChangeQueueEmitter.fire(this.getSnapshot());
+    }
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger';
+
+export const LEXICON_FILE_NAME = 'piper-lexicon.json';
+
+export interface LexiconEntry {
+    // Word or phrase to replace, or a regular expression when `regex` is set
+    match: string;
+    // Text to speak instead, may use $1 etc. with regex entries
+    replace?: string;
+    // Raw phonemes passed to Piper's phonemizer instead of text
+    phonemes?: string;
+    regex?: boolean;
+    caseSensitive?: boolean;
+}
+
+export interface LexiconLocation {
+    scope: 'workspace' | 'user';
+    label: string;
+    path: string;
+}
+
+interface CompiledRule {
+    pattern: RegExp;
+    replacement: string;
+}
+
+interface CachedLexicon {
+    mtimeMs: number;
+    rules: CompiledRule[];
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileEntry(entry: LexiconEntry): CompiledRule | undefined {
+    if (typeof entry?.match !== 'string' || !entry.match) {
+        return undefined;
+    }
+
+    let replacement: string;
+    if (typeof entry.phonemes === 'string' && entry.phonemes) {
+        replacement = `[[ ${entry.phonemes} ]]`;
+    } else if (typeof entry.replace === 'string') {
+        // Literal entries must not treat "$" in the replacement as a group reference
+        replacement = entry.regex ? entry.replace : entry.replace.replace(/\$/g, '$$$$');
+    } else {
+        return undefined;
+    }
+
+    const flags = entry.caseSensitive ? 'gu' : 'giu';
+    const source = entry.regex
+        ? entry.match
+        // Whole words only, so "API" does not match inside "RAPID"
+        : `(?<![\\p{L}\\p{N}_])${escapeRegExp(entry.match)}(?![\\p{L}\\p{N}_])`;
+
+    return { pattern: new RegExp(source, flags), replacement };
+}
+
+export function readLexiconEntries(filePath: string): LexiconEntry[] {
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return Array.isArray(content?.entries) ? content.entries : [];
+}
+
+// Workspace lexicons (.vscode/piper-lexicon.json) take precedence over the user lexicon in global storage
+export class PronunciationLexicon {
+    private readonly cache = new Map<string, CachedLexicon>();
+
+    constructor(private readonly userLexiconPath: string) {}
+
+    getLocations(): LexiconLocation[] {
+        const locations: LexiconLocation[] = (vscode.workspace.workspaceFolders || []).map(folder => ({
+            scope: 'workspace',
+            label: folder.name,
+            path: path.join(folder.uri.fsPath, '.vscode', LEXICON_FILE_NAME)
+        }));
+        locations.push({ scope: 'user', label: 'User', path: this.userLexiconPath });
+        return locations;
+    }
+
+    apply(text: string): string {
+        let result = text;
+        for (const location of this.getLocations()) {
+            for (const rule of this.getRules(location.path)) {
+                result = result.replace(rule.pattern, rule.replacement);
+            }
+        }
+        return result;
+    }
+
+    addEntry(filePath: string, entry: LexiconEntry) {
+        let entries: LexiconEntry[] = [];
+        if (fs.existsSync(filePath)) {
+            entries = readLexiconEntries(filePath);
+        } else {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        }
+
+        // Adding the same word again updates its pronunciation
+        const existing = entries.findIndex(candidate => !candidate.regex && !entry.regex && candidate.match === entry.match);
+        if (existing >= 0) {
+            entries[existing] = entry;
+        } else {
+            entries.push(entry);
+        }
+
+        fs.writeFileSync(filePath, JSON.stringify({ entries }, null, 2) + '\n', 'utf8');
+        this.cache.delete(filePath);
+    }
+
+    private getRules(filePath: string): CompiledRule[] {
+        if (!fs.existsSync(filePath)) {
+            this.cache.delete(filePath);
+            return [];
+        }
+
+        const stats = fs.statSync(filePath);
+        const cached = this.cache.get(filePath);
+        if (cached && cached.mtimeMs === stats.mtimeMs) {
+            return cached.rules;
+        }
+
+        const rules: CompiledRule[] = [];
+        try {
+            for (const entry of readLexiconEntries(filePath)) {
+                try {
+                    const rule = compileEntry(entry);
+                    if (rule) {
+                        rules.push(rule);
+                    }
+                } catch (error) {
+                    log.error(`Invalid pronunciation entry "${entry.match}" in ${filePath}:`, error);
+                }
+            }
+        } catch (error) {
+            log.error(`Error reading pronunciation lexicon ${filePath}:`, error);
+        }
+
+        this.cache.set(filePath, { mtimeMs: stats.mtimeMs, rules });
+        return rules;
+    }
+}
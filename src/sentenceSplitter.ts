@@ -0,0 +1,94 @@
+export interface Sentence {
+    text: string;
+    // Offsets into the original text, end exclusive
+    start: number;
+    end: number;
+}
+
+// Words that end with a period without ending the sentence
+const ABBREVIATIONS = new Set([
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'fig', 'approx', 'no', 'vol'
+]);
+
+// Piper handles long input fine, but short chunks keep highlighting and pausing responsive
+const MAX_SENTENCE_LENGTH = 400;
+
+function isFalseBoundary(text: string, punctuationIndex: number): boolean {
+    if (text[punctuationIndex] !== '.') {
+        return false;
+    }
+
+    const lineStart = text.lastIndexOf('\n', punctuationIndex - 1) + 1;
+    const before = text.slice(lineStart, punctuationIndex);
+    const word = (before.match(/(\S+)$/)?.[1] || '').replace(/^[("'[]+/, '').toLowerCase();
+
+    if (ABBREVIATIONS.has(word)) {
+        return true;
+    }
+    // Initials such as "J. R. R. Tolkien"
+    if (/^\p{L}$/u.test(word)) {
+        return true;
+    }
+    // Numbered list markers such as "1. First step"
+    return /^\d+$/.test(word) && before.trim() === word;
+}
+
+function splitLongSentence(text: string, start: number, end: number, sentences: Sentence[]) {
+    while (end - start > MAX_SENTENCE_LENGTH) {
+        const window = text.slice(start, start + MAX_SENTENCE_LENGTH);
+        // Prefer breaking after a clause, then after any whitespace
+        let breakAt = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '));
+        breakAt = breakAt > 0 ? breakAt + 1 : window.lastIndexOf(' ');
+        if (breakAt <= 0) {
+            breakAt = MAX_SENTENCE_LENGTH;
+        }
+        addSentence(text, start, start + breakAt, sentences);
+        start += breakAt;
+    }
+    addSentence(text, start, end, sentences);
+}
+
+function addSentence(text: string, start: number, end: number, sentences: Sentence[]) {
+    // Trim surrounding whitespace while keeping offsets accurate
+    while (start < end && /\s/.test(text[start])) {
+        start++;
+    }
+    while (end > start && /\s/.test(text[end - 1])) {
+        end--;
+    }
+    if (start === end || !/[\p{L}\p{N}]/u.test(text.slice(start, end))) {
+        return;
+    }
+
+    if (end - start > MAX_SENTENCE_LENGTH) {
+        splitLongSentence(text, start, end, sentences);
+        return;
+    }
+
+    sentences.push({ text: text.slice(start, end), start, end });
+}
+
+// Split text into sentences, treating blank lines and the start of list items and headings as boundaries too
+export function splitSentences(text: string): Sentence[] {
+    const sentences: Sentence[] = [];
+    const boundary = /([.!?。！？]+["'”’)\]]*)(?=\s|$)|\n[ \t]*\n|\n(?=[ \t]*(?:[-*+>]|\d+[.)]|#{1,6})[ \t])/gu;
+
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text)) !== null) {
+        if (match[1] !== undefined) {
+            if (isFalseBoundary(text, match.index)) {
+                continue;
+            }
+            const end = match.index + match[1].length;
+            addSentence(text, start, end, sentences);
+            start = end;
+        } else {
+            addSentence(text, start, match.index, sentences);
+            start = boundary.lastIndex;
+        }
+    }
+    addSentence(text, start, text.length, sentences);
+
+    return sentences;
+}
@@ -0,0 +1,313 @@
+import { TextRange } from './api';
+
+// <break strength="..."> in seconds
+const BREAK_STRENGTHS: Record<string, number> = {
+    'none': 0,
+    'x-weak': 0.1,
+    'weak': 0.25,
+    'medium': 0.5,
+    'strong': 0.75,
+    'x-strong': 1.2
+};
+
+// <prosody rate="..."> keywords as speed multipliers
+const RATES: Record<string, number> = {
+    'x-slow': 0.5,
+    'slow': 0.75,
+    'medium': 1,
+    'default': 1,
+    'fast': 1.25,
+    'x-fast': 1.75
+};
+
+const MAX_BREAK_SECONDS = 10;
+
+// Paragraphs and sentences end where their elements open or close
+const BOUNDARY_ELEMENTS = ['p', 's', 'paragraph', 'sentence'];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+// Markup that is skipped, an element tag, or text up to the next tag
+const TOKEN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|[^<]+/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITY = /&(?:#(\d+)|#x([0-9a-fA-F]+)|(\w+));/g;
+
+export class SsmlError extends Error {
+    constructor(message: string, readonly offset: number) {
+        super(`Invalid SSML at offset ${offset}: ${message}`);
+        this.name = 'SsmlError';
+    }
+}
+
+/**
+ * A stretch of SSML spoken with the same voice and rate. Breaks become silence around the spans,
+ * markup is removed and <sub>/<say-as> are replaced by what should be said.
+ */
+export interface SsmlSpan {
+    text: string;
+    // Voice ID from the enclosing <voice name>, the caller's voice when undefined
+    voice?: string;
+    // Speed multiplier from the enclosing <prosody rate> elements, 1 for normal speed
+    rate: number;
+    // Seconds of silence from <break> elements before and after the span
+    pauseBefore: number;
+    pauseAfter: number;
+    // The range of the markup that produced text.slice(start, end)
+    getSourceRange(start: number, end: number): TextRange;
+}
+
+interface ElementFrame {
+    name: string;
+    start: number;
+    voice?: string;
+    rate: number;
+    // Text collected by <sub> and <say-as> to be replaced when they close
+    replacement?: { collected: string, transform(collected: string): string };
+}
+
+interface SpanBuilder {
+    text: string;
+    // Source range of each character of text
+    starts: number[];
+    ends: number[];
+    voice?: string;
+    rate: number;
+}
+
+// SSML is recognized by its <speak> root, optionally after an XML declaration
+export function isSsml(text: string): boolean {
+    return /^\s*(?:<\?xml[^>]*\?>\s*)?<speak[\s>/]/.test(text);
+}
+
+function decodeEntities(text: string, offset: number): string {
+    return text.replace(ENTITY, (entity, decimal: string | undefined, hex: string | undefined, name: string | undefined, index: number) => {
+        if (decimal || hex) {
+            return String.fromCodePoint(parseInt(decimal ?? hex!, decimal ? 10 : 16));
+        }
+        if (name && name in ENTITIES) {
+            return ENTITIES[name];
+        }
+        throw new SsmlError(`unknown entity ${entity}`, offset + index);
+    });
+}
+
+function parseAttributes(source: string, offset: number): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE)) {
+        attributes[match[1]] = decodeEntities(match[2] ?? match[3], offset);
+    }
+    return attributes;
+}
+
+function parseBreak(attributes: Record<string, string>, offset: number): number {
+    if (attributes.time !== undefined) {
+        const match = attributes.time.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+        if (!match) {
+            throw new SsmlError(`unsupported break time "${attributes.time}", use e.g. "500ms" or "2s"`, offset);
+        }
+        const seconds = Number(match[1]) / (match[2].toLowerCase() === 'ms' ? 1000 : 1);
+        return Math.min(seconds, MAX_BREAK_SECONDS);
+    }
+    const strength = (attributes.strength ?? 'medium').trim().toLowerCase();
+    if (!(strength in BREAK_STRENGTHS)) {
+        throw new SsmlError(`unsupported break strength "${attributes.strength}"`, offset);
+    }
+    return BREAK_STRENGTHS[strength];
+}
+
+// Keywords, relative changes such as "+20%" or "-10%", absolute percentages such as "150%" or plain multipliers
+function parseRate(value: string, offset: number): number {
+    const rate = value.trim().toLowerCase();
+    if (rate in RATES) {
+        return RATES[rate];
+    }
+    const percentage = rate.match(/^([+-]?)(\d+(?:\.\d+)?)%$/);
+    if (percentage) {
+        const amount = Number(percentage[2]) / 100;
+        const multiplier = percentage[1] === '+' ? 1 + amount : percentage[1] === '-' ? 1 - amount : amount;
+        if (multiplier > 0) {
+            return multiplier;
+        }
+    }
+    const multiplier = Number(rate);
+    if (rate && isFinite(multiplier) && multiplier > 0) {
+        return multiplier;
+    }
+    throw new SsmlError(`unsupported prosody rate "${value}"`, offset);
+}
+
+// "API" is read letter by letter as "A P I"
+function spellOut(text: string): string {
+    return [...text].filter(character => /\S/.test(character)).map(character => character.toUpperCase()).join(' ');
+}
+
+/**
+ * Parse the supported SSML subset: <speak>, <break time|strength>, <prosody rate>, <voice name>,
+ * <say-as interpret-as="characters"> and <sub alias>. <p> and <s> separate sentences, other elements are
+ * ignored and their text is read.
+ */
+export function parseSsml(markup: string): SsmlSpan[] {
+    const spans: SsmlSpan[] = [];
+    const stack: ElementFrame[] = [];
+    let builder: SpanBuilder | undefined;
+    let leadingPause = 0;
+    let sawRoot = false;
+
+    const flush = () => {
+        const current = builder;
+        builder = undefined;
+        if (!current || !/\S/.test(current.text)) {
+            return;
+        }
+        spans.push({
+            text: current.text,
+            voice: current.voice,
+            rate: current.rate,
+            pauseBefore: 0,
+            pauseAfter: 0,
+            getSourceRange: (start, end) => ({
+                start: current.starts[Math.min(start, current.starts.length - 1)],
+                end: current.ends[Math.max(0, Math.min(end, current.ends.length) - 1)]
+            })
+        });
+    };
+
+    // Every character of text came from the source range [start, end), or from start + its index when exact
+    const append = (text: string, start: number, end: number, exact: boolean) => {
+        const frame = stack[stack.length - 1];
+        if (!frame) {
+            if (/\S/.test(text)) {
+                throw new SsmlError('text outside <speak>', start);
+            }
+            return;
+        }
+        const replacing = [...stack].reverse().find(element => element.replacement);
+        if (replacing) {
+            replacing.replacement!.collected += text;
+            return;
+        }
+
+        if (builder && (builder.voice !== frame.voice || builder.rate !== frame.rate)) {
+            flush();
+        }
+        if (!builder) {
+            builder = { text: '', starts: [], ends: [], voice: frame.voice, rate: frame.rate };
+        }
+        for (let index = 0; index < text.length; index++) {
+            builder.starts.push(exact ? start + index : start);
+            builder.ends.push(exact ? start + index + 1 : end);
+        }
+        builder.text += text;
+    };
+
+    const appendSourceText = (text: string, offset: number) => {
+        let position = 0;
+        for (const match of text.matchAll(ENTITY)) {
+            append(text.slice(position, match.index), offset + position, offset + match.index!, true);
+            append(decodeEntities(match[0], offset + match.index!), offset + match.index!, offset + match.index! + match[0].length, false);
+            position = match.index! + match[0].length;
+        }
+        append(text.slice(position), offset + position, offset + text.length, true);
+    };
+
+    TOKEN.lastIndex = 0;
+    while (TOKEN.lastIndex < markup.length) {
+        const offset = TOKEN.lastIndex;
+        const match = TOKEN.exec(markup);
+        if (!match) {
+            throw new SsmlError('malformed markup', offset);
+        }
+        const [token, cdata, closing, rawName, attributeSource, selfClosing] = match;
+
+        if (cdata !== undefined) {
+            append(cdata, offset + '<![CDATA['.length, offset + token.length, true);
+            continue;
+        }
+        if (!rawName) {
+            if (!token.startsWith('<')) {
+                appendSourceText(token, offset);
+            }
+            continue;
+        }
+
+        const name = rawName.toLowerCase();
+        if (BOUNDARY_ELEMENTS.includes(name)) {
+            // A blank line keeps sentences apart, e.g. in <s>One.</s><s>Two.</s>
+            append('\n\n', offset, offset + token.length, false);
+        }
+        if (closing) {
+            const frame = stack.pop();
+            if (!frame || frame.name !== name) {
+                throw new SsmlError(`unexpected </${rawName}>`, offset);
+            }
+            if (frame.replacement) {
+                const replacement = frame.replacement.transform(frame.replacement.collected);
+                append(replacement, frame.start, offset + token.length, false);
+            }
+            continue;
+        }
+
+        const attributes = parseAttributes(attributeSource, offset);
+        const parent = stack[stack.length - 1];
+        if (!parent) {
+            if (name !== 'speak' || sawRoot) {
+                throw new SsmlError('the root element must be <speak>', offset);
+            }
+            sawRoot = true;
+        } else if (name === 'speak') {
+            throw new SsmlError('<speak> cannot be nested', offset);
+        }
+
+        if (name === 'break') {
+            const seconds = parseBreak(attributes, offset);
+            flush();
+            if (spans.length > 0) {
+                spans[spans.length - 1].pauseAfter += seconds;
+            } else {
+                leadingPause += seconds;
+            }
+            if (!selfClosing) {
+                stack.push({ name, start: offset, voice: parent?.voice, rate: parent?.rate ?? 1 });
+            }
+            continue;
+        }
+
+        const frame: ElementFrame = { name, start: offset, voice: parent?.voice, rate: parent?.rate ?? 1 };
+        if (name === 'voice') {
+            if (!attributes.name?.trim()) {
+                throw new SsmlError('<voice> needs a name attribute with a voice ID', offset);
+            }
+            frame.voice = attributes.name.trim();
+        } else if (name === 'prosody' && attributes.rate !== undefined) {
+            frame.rate *= parseRate(attributes.rate, offset);
+        } else if (name === 'sub') {
+            if (attributes.alias === undefined) {
+                throw new SsmlError('<sub> needs an alias attribute', offset);
+            }
+            frame.replacement = { collected: '', transform: () => attributes.alias };
+        } else if (name === 'say-as' && ['characters', 'spell-out'].includes(attributes['interpret-as']?.trim().toLowerCase())) {
+            frame.replacement = { collected: '', transform: spellOut };
+        }
+
+        if (selfClosing) {
+            if (frame.replacement) {
+                append(frame.replacement.transform(''), offset, offset + token.length, false);
+            }
+        } else {
+            stack.push(frame);
+        }
+    }
+
+    if (stack.length > 0) {
+        throw new SsmlError(`<${stack[stack.length - 1].name}> is not closed`, stack[stack.length - 1].start);
+    }
+    if (!sawRoot) {
+        throw new SsmlError('the root element must be <speak>', 0);
+    }
+
+    flush();
+    if (spans.length > 0) {
+        spans[0].pauseBefore = leadingPause;
+    }
+    return spans;
+}
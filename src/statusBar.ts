@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { PlaybackQueueSnapshot } from './api';
+import { PlaybackManager } from './playbackManager';
+
+function updateStatusBarItem(item: vscode.StatusBarItem, snapshot: PlaybackQueueSnapshot) {
+    const queued = snapshot.pending.length > 0 ? ` (+${snapshot.pending.length})` : '';
+
+    switch (snapshot.state) {
+        case 'playing':
+            item.text = `$(unmute) Piper TTS${queued}`;
+            item.tooltip = 'Reading aloud. Click to pause';
+            item.show();
+            break;
+        case 'paused':
+            item.text = `$(debug-pause) Piper TTS paused${queued}`;
+            item.tooltip = 'Playback paused. Click to resume';
+            item.show();
+            break;
+        default:
+            item.hide();
+            break;
+    }
+
+    // Lets menus and keybindings depend on the playback state
+    vscode.commands.executeCommand('setContext', 'piper-tts.playbackState', snapshot.state);
+}
+
+export function createPlaybackStatusBarItem(manager: PlaybackManager): vscode.Disposable {
+    const item = vscode.window.createStatusBarItem('piper-tts.playback', vscode.StatusBarAlignment.Right, 100);
+    item.name = 'Piper TTS Playback';
+    item.command = 'piper-tts.togglePause';
+
+    updateStatusBarItem(item, manager.getSnapshot());
+    const listener = manager.onDidChangeQueue(snapshot => updateStatusBarItem(item, snapshot));
+
+    return vscode.Disposable.from(item, listener);
+}
@@ -1,19 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { log } from './logger';
 
 export interface SymlinkMapping {
     target: string;
     link: string;
 }
 
-export function getLinuxArchitecture(): string {
+// Folder of the bundled binaries for this architecture, undefined where none are bundled
+export function getLinuxArchitecture(): string | undefined {
     const arch = os.arch();
     switch (arch) {
         case 'x64': return 'linux_x86_64';
         case 'arm64': return 'linux_aarch64';
         case 'arm': return 'linux_armv7l';
-        default: return 'linux_x86_64'; // fallback
+        default: return undefined;
     }
 }
 
@@ -33,10 +35,14 @@ export async function fixSymlinks(extensionPath: string): Promise<void> {
     }
 
     const architecture = getLinuxArchitecture();
+    if (!architecture) {
+        log.warn(`No bundled Piper binaries for ${os.arch()}`);
+        return;
+    }
     const binaryDir = path.join(extensionPath, 'piper', architecture);
     
     if (!fs.existsSync(binaryDir)) {
-        console.warn(`Piper binary directory not found: ${binaryDir}`);
+        log.warn(`Piper binary directory not found: ${binaryDir}`);
         return;
     }
 
@@ -54,7 +60,7 @@ async function createSymlink(dir: string, target: string, link: string): Promise
     try {
         // Check if target file exists
         if (!fs.existsSync(targetPath)) {
-            console.warn(`Target file not found: ${targetPath}`);
+            log.warn(`Target file not found: ${targetPath}`);
             return;
         }
         
@@ -65,10 +71,10 @@ async function createSymlink(dir: string, target: string, link: string): Promise
         
         // Create symbolic link
         await fs.promises.symlink(target, linkPath);
-        console.log(`Created symlink: ${link} -> ${target}`);
+        log.debug(`Created symlink: ${link} -> ${target}`);
         
     } catch (error) {
-        console.error(`Failed to create symlink ${link} -> ${target}:`, error);
+        log.error(`Failed to create symlink ${link} -> ${target}:`, error);
         // Don't throw - continue with other symlinks
     }
 }
\ No newline at end of file
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { PcmFormat, parseWav, pcmToWav } from './audioUtils';
+import { log } from './logger';
+
+export const SYNTHESIS_CACHE_DIRECTORY_NAME = 'synthesis-cache';
+
+// Everything that changes the audio piper produces
+export interface SynthesisCacheKey {
+    text: string;
+    voicePath: string;
+    // Model and synthesis arguments passed to piper
+    args: string[];
+    speakerId?: number;
+}
+
+export interface SynthesisCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+interface CacheEntry {
+    size: number;
+    lastUsed: number;
+}
+
+// Whitespace differences do not change what is said
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Synthesized speech stored as WAV files in global storage and evicted least recently used first.
+ * File names start with the voice ID so a voice's entries can be dropped when it is removed or replaced.
+ */
+export class SynthesisCache {
+    private entries: Map<string, CacheEntry> | undefined;
+
+    constructor(private readonly directory: string, private readonly getMaxBytes: () => number) {}
+
+    get enabled(): boolean {
+        return this.getMaxBytes() > 0;
+    }
+
+    get(key: SynthesisCacheKey): { pcm: Buffer, format: PcmFormat } | undefined {
+        if (!this.enabled) {
+            return undefined;
+        }
+        const fileName = this.getFileName(key);
+        const entry = fileName && this.load().get(fileName);
+        if (!fileName || !entry) {
+            return undefined;
+        }
+
+        try {
+            const { data, format } = parseWav(fs.readFileSync(path.join(this.directory, fileName)));
+            entry.lastUsed = Date.now();
+            // The modification time keeps the usage order across sessions
+            const now = new Date(entry.lastUsed);
+            fs.utimes(path.join(this.directory, fileName), now, now, () => {});
+            return { pcm: data, format };
+        } catch (error) {
+            log.warn('Dropping unreadable synthesis cache entry:', error);
+            this.remove(fileName);
+            return undefined;
+        }
+    }
+
+    async put(key: SynthesisCacheKey, pcm: Buffer, format: PcmFormat): Promise<void> {
+        const maxBytes = this.getMaxBytes();
+        const fileName = this.getFileName(key);
+        const wav = pcmToWav(pcm, format);
+        // A single entry should not push out most of the cache
+        if (!fileName || pcm.length === 0 || wav.length > maxBytes / 4) {
+            return;
+        }
+
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const filePath = path.join(this.directory, fileName);
+        const partialPath = `${filePath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(partialPath, wav);
+        await fs.promises.rename(partialPath, filePath);
+
+        this.load().set(fileName, { size: wav.length, lastUsed: Date.now() });
+        this.evict(maxBytes);
+    }
+
+    // Drop a voice's entries, e.g. after it was removed or downloaded again
+    invalidateVoice(voiceId: string) {
+        for (const fileName of [...this.load().keys()]) {
+            if (fileName.startsWith(`${voiceId}.`)) {
+                this.remove(fileName);
+            }
+        }
+    }
+
+    clear() {
+        fs.rmSync(this.directory, { recursive: true, force: true });
+        this.entries = new Map();
+    }
+
+    getStats(): SynthesisCacheStats {
+        let bytes = 0;
+        for (const entry of this.load().values()) {
+            bytes += entry.size;
+        }
+        return { entries: this.load().size, bytes };
+    }
+
+    // Undefined when the model is missing, in which case synthesis fails anyway
+    private getFileName(key: SynthesisCacheKey): string | undefined {
+        let modelStats: fs.Stats;
+        try {
+            modelStats = fs.statSync(key.voicePath);
+        } catch {
+            return undefined;
+        }
+
+        // The model's size and modification time change when it is downloaded again
+        const hash = crypto.createHash('sha256')
+            .update(JSON.stringify([normalizeText(key.text), key.args, key.speakerId ?? null, modelStats.size, modelStats.mtimeMs]))
+            .digest('hex')
+            .slice(0, 32);
+        return `${path.basename(key.voicePath, '.onnx')}.${hash}.wav`;
+    }
+
+    private load(): Map<string, CacheEntry> {
+        if (this.entries) {
+            return this.entries;
+        }
+
+        this.entries = new Map();
+        let fileNames: string[] = [];
+        try {
+            fileNames = fs.readdirSync(this.directory);
+        } catch {
+            // Nothing cached yet
+        }
+        for (const fileName of fileNames) {
+            const filePath = path.join(this.directory, fileName);
+            if (!fileName.endsWith('.wav')) {
+                // Left over from an interrupted write
+                fs.rm(filePath, { force: true }, () => {});
+                continue;
+            }
+            try {
+                const stats = fs.statSync(filePath);
+                this.entries.set(fileName, { size: stats.size, lastUsed: stats.mtimeMs });
+            } catch {
+                // Removed in the meantime
+            }
+        }
+        return this.entries;
+    }
+
+    private evict(maxBytes: number) {
+        const entries = [...this.load().entries()].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        let bytes = entries.reduce((total, [, entry]) => total + entry.size, 0);
+        for (const [fileName, entry] of entries) {
+            if (bytes <= maxBytes) {
+                break;
+            }
+            this.remove(fileName);
+            bytes -= entry.size;
+        }
+    }
+
+    private remove(fileName: string) {
+        this.load().delete(fileName);
+        fs.rmSync(path.join(this.directory, fileName), { force: true });
+    }
+}
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { describeDiagnostics, describeTaskEnd, getDiagnosticsOnLine, getHoverText } from '../announcer';
+import { canRunNodeScripts } from './support/nodeScript';
+import { SpeechTestEnvironment } from './support/testEnvironment';
+
+function diagnostic(line: number, message: string, severity: vscode.DiagnosticSeverity, source?: string): vscode.Diagnostic {
+	const result = new vscode.Diagnostic(new vscode.Range(line, 0, line, 5), message, severity);
+	result.source = source;
+	return result;
+}
+
+suite('Announcer', () => {
+	test('problems on a line are read most severe first', () => {
+		const diagnostics = [
+			diagnostic(2, 'Unused variable', vscode.DiagnosticSeverity.Warning),
+			diagnostic(3, 'Elsewhere', vscode.DiagnosticSeverity.Error),
+			diagnostic(2, 'Consider a constant', vscode.DiagnosticSeverity.Hint),
+			diagnostic(2, 'Cannot find name\n  \'x\'', vscode.DiagnosticSeverity.Error, 'ts')
+		];
+
+		const onLine = getDiagnosticsOnLine(diagnostics, 2, vscode.DiagnosticSeverity.Warning);
+		assert.deepStrictEqual(onLine.map(item => item.message), ['Cannot find name\n  \'x\'', 'Unused variable']);
+		assert.strictEqual(describeDiagnostics(onLine, 2), 'Line 3, 2 problems.\nError from ts: Cannot find name \'x\'.\nWarning: Unused variable.');
+		assert.strictEqual(describeDiagnostics([], 2), 'No problems on line 3.');
+	});
+
+	test('hover contents are joined as Markdown', () => {
+		const hovers = [
+			new vscode.Hover([{ language: 'typescript', value: 'const answer: number' }, new vscode.MarkdownString('The **answer**.')]),
+			new vscode.Hover(['  ', 'Plain text'])
+		];
+		assert.strictEqual(getHoverText(hovers), '```typescript\nconst answer: number\n```\n\nThe **answer**.\n\nPlain text');
+	});
+
+	test('task results name the task and its exit code', () => {
+		const build = new vscode.Task({ type: 'shell' }, vscode.TaskScope.Workspace, 'build', 'test');
+		const unitTests = new vscode.Task({ type: 'shell' }, vscode.TaskScope.Workspace, 'unit tests', 'test');
+		unitTests.group = vscode.TaskGroup.Test;
+
+		assert.strictEqual(describeTaskEnd(build, 0), 'Task build succeeded.');
+		assert.strictEqual(describeTaskEnd(build, 2), 'Task build failed with exit code 2.');
+		assert.strictEqual(describeTaskEnd(unitTests, 0), 'Tests passed: unit tests.');
+		assert.strictEqual(describeTaskEnd(unitTests, 1), 'Tests failed with exit code 1: unit tests.');
+	});
+
+	suite('Commands', () => {
+		let environment: SpeechTestEnvironment;
+		let diagnostics: vscode.DiagnosticCollection;
+
+		suiteSetup(async function () {
+			if (!canRunNodeScripts) {
+				this.skip();
+			}
+			environment = await SpeechTestEnvironment.create();
+			diagnostics = vscode.languages.createDiagnosticCollection('piper-tts-test');
+		});
+
+		suiteTeardown(async () => {
+			diagnostics?.dispose();
+			await environment?.dispose();
+		});
+
+		setup(() => {
+			environment.reset();
+			diagnostics.clear();
+		});
+
+		teardown(async () => {
+			await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		});
+
+		async function openEditorAtLine(content: string, line: number): Promise<vscode.TextEditor> {
+			const document = await vscode.workspace.openTextDocument({ content, language: 'plaintext' });
+			const editor = await vscode.window.showTextDocument(document);
+			editor.selection = new vscode.Selection(line, 0, line, 0);
+			return editor;
+		}
+
+		test('Read Current Line reads the line at the cursor', async () => {
+			await openEditorAtLine('First line.\n  Second line.\nThird line.', 1);
+			await vscode.commands.executeCommand('piper-tts.readCurrentLine');
+
+			assert.deepStrictEqual(environment.piper.getInvocations().map(invocation => invocation.text), ['Second line.']);
+		});
+
+		test('Read Problems on Current Line reads its diagnostics', async () => {
+			const editor = await openEditorAtLine('Fine.\nBroken.', 1);
+			diagnostics.set(editor.document.uri, [diagnostic(1, 'Something is wrong', vscode.DiagnosticSeverity.Error)]);
+			await vscode.commands.executeCommand('piper-tts.readLineProblems');
+
+			assert.deepStrictEqual(environment.piper.getInvocations().map(invocation => invocation.text), ['Line 2, 1 problem.', 'Error: Something is wrong.']);
+		});
+	});
+});
@@ -0,0 +1,256 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FinishSpeakingEvent, SentenceChangeEvent } from '../api';
+import { FAILING_TEXT, fakePcm } from './support/fakePiper';
+import { canRunNodeScripts } from './support/nodeScript';
+import { SpeechTestEnvironment, TEST_SAMPLE_RATE, TEST_VOICE, updateSettings, waitForEvent, writeTestVoice } from './support/testEnvironment';
+
+const MULTI_SPEAKER_VOICE = 'en_US-chorus-medium';
+
+function silence(seconds: number): Buffer {
+	return Buffer.alloc(Math.round(seconds * TEST_SAMPLE_RATE) * 2);
+}
+
+// Everything the fake piper synthesized since the last reset, in order
+function synthesizedPcm(environment: SpeechTestEnvironment): Buffer {
+	return Buffer.concat(environment.piper.getInvocations().map(invocation => fakePcm(invocation.text)));
+}
+
+suite('API', () => {
+	let environment: SpeechTestEnvironment;
+
+	suiteSetup(async function () {
+		if (!canRunNodeScripts) {
+			this.skip();
+		}
+		environment = await SpeechTestEnvironment.create();
+		writeTestVoice(environment.voiceDirectory, MULTI_SPEAKER_VOICE, ['alice', 'bob']);
+	});
+
+	suiteTeardown(async () => {
+		await environment?.dispose();
+	});
+
+	setup(() => {
+		environment.reset();
+	});
+
+	for (const persistentProcess of [false, true]) {
+		suite(persistentProcess ? 'Persistent piper process' : 'One-shot piper processes', () => {
+			suiteSetup(async () => {
+				await updateSettings({ persistentProcess });
+			});
+
+			test('readText plays each sentence in order', async () => {
+				const text = 'Hello there. How are you?';
+				const sentences: SentenceChangeEvent[] = [];
+				const listener = environment.api.onDidChangeSentence(event => sentences.push(event));
+				try {
+					await environment.api.readText(text);
+				} finally {
+					listener.dispose();
+				}
+
+				assert.deepStrictEqual(sentences.map(sentence => sentence.text), ['Hello there.', 'How are you?']);
+				assert.deepStrictEqual(sentences.map(sentence => text.slice(sentence.range.start, sentence.range.end)), ['Hello there.', 'How are you?']);
+				assert.deepStrictEqual(sentences.map(sentence => sentence.voice), [TEST_VOICE, TEST_VOICE]);
+
+				const recordings = environment.player.getRecordings();
+				assert.deepStrictEqual(recordings.map(recording => recording.pcm), [fakePcm('Hello there.'), fakePcm('How are you?')]);
+				assert.deepStrictEqual(recordings[0].args, [String(TEST_SAMPLE_RATE), '1', '16']);
+
+				const invocations = environment.piper.getInvocations();
+				const mode = persistentProcess ? 'json' : 'raw';
+				assert.deepStrictEqual(invocations.map(invocation => invocation.mode), [mode, mode]);
+				assert.strictEqual(invocations[0].args[invocations[0].args.indexOf('--model') + 1], path.join(environment.voiceDirectory, `${TEST_VOICE}.onnx`));
+			});
+
+			test('synthesize returns the PCM without playing it', async () => {
+				const { pcm, format } = await environment.api.synthesize('Just the audio. Nothing else.');
+
+				assert.deepStrictEqual(format, { sampleRate: TEST_SAMPLE_RATE, channels: 1, bitsPerSample: 16 });
+				assert.ok(pcm.length > 0);
+				assert.deepStrictEqual(pcm, synthesizedPcm(environment));
+				assert.strictEqual(environment.player.getRecordings().length, 0);
+			});
+
+			test('synthesizeStream streams the PCM', async () => {
+				const stream = environment.api.synthesizeStream('Streamed. In parts.');
+				const chunks: Buffer[] = [];
+				for await (const chunk of stream) {
+					chunks.push(chunk);
+				}
+
+				assert.strictEqual(stream.format.sampleRate, TEST_SAMPLE_RATE);
+				assert.deepStrictEqual(Buffer.concat(chunks), synthesizedPcm(environment));
+			});
+
+			test('failed synthesis rejects the utterance and reports the error', async () => {
+				const error = waitForEvent(environment.api.onDidError);
+				const finish = waitForEvent(environment.api.onDidFinishSpeaking);
+				const utterance = environment.api.readText(`This is ${FAILING_TEXT}.`);
+
+				await assert.rejects(utterance);
+				assert.strictEqual((await error).utteranceId, utterance.id);
+				assert.deepStrictEqual(await finish, { utteranceId: utterance.id, reason: 'error' });
+				assert.strictEqual(environment.api.getState(), 'idle');
+			});
+		});
+	}
+
+	test('apiVersion is a semantic version', () => {
+		assert.match(environment.api.apiVersion, /^\d+\.\d+\.\d+$/);
+	});
+
+	test('options select the voice, speaker and synthesis settings', async () => {
+		const started = waitForEvent(environment.api.onDidStartSpeaking);
+		await environment.api.readText('Options.', { voice: MULTI_SPEAKER_VOICE, speaker: 'bob', lengthScale: 1.5 });
+
+		assert.strictEqual((await started).voice, MULTI_SPEAKER_VOICE);
+		const [invocation] = environment.piper.getInvocations();
+		assert.strictEqual(invocation.args[invocation.args.indexOf('--model') + 1], path.join(environment.voiceDirectory, `${MULTI_SPEAKER_VOICE}.onnx`));
+		assert.strictEqual(invocation.args[invocation.args.indexOf('--length_scale') + 1], '1.5');
+		assert.strictEqual(invocation.speakerId, 1);
+	});
+
+	test('enqueue waits for current speech', async () => {
+		environment.player.hold();
+		const first = environment.api.readText('First.');
+		await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === first.id);
+		const second = environment.api.enqueue('Second.');
+
+		assert.strictEqual(environment.api.getState(), 'playing');
+		assert.strictEqual(environment.api.getQueue().pending.length, 1);
+
+		environment.player.release();
+		await Promise.all([first, second]);
+		assert.deepStrictEqual(environment.player.getRecordings().map(recording => recording.pcm), [fakePcm('First.'), fakePcm('Second.')]);
+	});
+
+	test('readText interrupts current speech', async () => {
+		const finished: FinishSpeakingEvent[] = [];
+		const listener = environment.api.onDidFinishSpeaking(event => finished.push(event));
+		try {
+			environment.player.hold();
+			const first = environment.api.readText('Interrupted.');
+			await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === first.id);
+			const second = environment.api.readText('Interrupting.');
+			environment.player.release();
+			await Promise.all([first, second]);
+
+			assert.deepStrictEqual(finished, [
+				{ utteranceId: first.id, reason: 'cancelled' },
+				{ utteranceId: second.id, reason: 'completed' }
+			]);
+		} finally {
+			listener.dispose();
+		}
+	});
+
+	test('cancel stops only its own utterance', async () => {
+		environment.player.hold();
+		const first = environment.api.readText('Keep playing.');
+		const second = environment.api.enqueue('Never played.');
+		await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === first.id);
+
+		second.cancel();
+		await second;
+		assert.strictEqual(environment.api.getState(), 'playing');
+		assert.strictEqual(environment.api.getQueue().pending.length, 0);
+
+		first.cancel();
+		await first;
+		assert.strictEqual(environment.api.getState(), 'idle');
+		assert.ok(!environment.piper.getInvocations().some(invocation => invocation.text.includes('Never played')));
+	});
+
+	test('pause and resume keep the utterance', async () => {
+		environment.player.hold();
+		const utterance = environment.api.readText('Pause me.');
+		await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === utterance.id);
+
+		environment.api.pause();
+		assert.strictEqual(environment.api.getState(), 'paused');
+		environment.api.resume();
+		assert.strictEqual(environment.api.getState(), 'playing');
+
+		environment.player.release();
+		await utterance;
+		assert.strictEqual(environment.api.getState(), 'idle');
+	});
+
+	test('SSML sets pauses, rate and voice per span', async () => {
+		const markup = '<speak><break time="250ms"/>Slowly <prosody rate="50%">now.</prosody> <voice name="en_US-chorus-medium">Other voice.</voice><break time="1s"/></speak>';
+		const sentences: SentenceChangeEvent[] = [];
+		const listener = environment.api.onDidChangeSentence(event => sentences.push(event));
+		try {
+			await environment.api.readText(markup);
+		} finally {
+			listener.dispose();
+		}
+
+		assert.deepStrictEqual(sentences.map(sentence => markup.slice(sentence.range.start, sentence.range.end)), ['Slowly', 'now.', 'Other voice.']);
+		assert.deepStrictEqual(sentences.map(sentence => sentence.voice), [TEST_VOICE, TEST_VOICE, MULTI_SPEAKER_VOICE]);
+		assert.deepStrictEqual(environment.player.getRecordings().map(recording => recording.pcm), [
+			Buffer.concat([silence(0.25), fakePcm('Slowly')]),
+			fakePcm('now.'),
+			Buffer.concat([fakePcm('Other voice.'), silence(1)])
+		]);
+
+		const invocations = environment.piper.getInvocations();
+		assert.strictEqual(invocations[1].args[invocations[1].args.indexOf('--length_scale') + 1], '2');
+		assert.strictEqual(invocations[2].args[invocations[2].args.indexOf('--model') + 1], path.join(environment.voiceDirectory, `${MULTI_SPEAKER_VOICE}.onnx`));
+	});
+
+	test('synthesize joins SSML spans with their pauses', async () => {
+		const { pcm } = await environment.api.synthesize('<speak>One.<break time="500ms"/>Two.</speak>');
+
+		const invocations = environment.piper.getInvocations();
+		assert.deepStrictEqual(invocations.map(invocation => invocation.text.trim()), ['One.', 'Two.']);
+		assert.deepStrictEqual(pcm, Buffer.concat([fakePcm(invocations[0].text), silence(0.5), fakePcm(invocations[1].text)]));
+	});
+
+	test('invalid SSML rejects the utterance and reports the error', async () => {
+		const error = waitForEvent(environment.api.onDidError);
+		const utterance = environment.api.readText('<speak>Never closed');
+
+		await assert.rejects(utterance, /Invalid SSML/);
+		assert.strictEqual((await error).utteranceId, utterance.id);
+		assert.strictEqual(environment.api.getState(), 'idle');
+		assert.strictEqual(environment.piper.getInvocations().length, 0);
+	});
+
+	test('cached speech is not synthesized again', async () => {
+		await updateSettings({ cacheSize: 10 });
+		try {
+			await vscode.commands.executeCommand('piper-tts.clearCache');
+			const first = await environment.api.synthesize('Say it once.');
+			// Entries are written once synthesis has finished
+			await new Promise(resolve => setTimeout(resolve, 500));
+			const second = await environment.api.synthesize('Say  it once. ');
+
+			assert.strictEqual(environment.piper.getInvocations().length, 1);
+			assert.deepStrictEqual(first.pcm, fakePcm('Say it once.'));
+			assert.deepStrictEqual(second.pcm, first.pcm);
+		} finally {
+			await updateSettings({ cacheSize: 0 });
+		}
+	});
+
+	test('cached speech is played', async () => {
+		await updateSettings({ cacheSize: 10 });
+		try {
+			await vscode.commands.executeCommand('piper-tts.clearCache');
+			await environment.api.readText('Play it twice.');
+			await new Promise(resolve => setTimeout(resolve, 500));
+			// Queued behind nothing after an await, where a cache hit used to finish before its audio was read
+			await environment.api.enqueue('Play it twice.');
+
+			assert.strictEqual(environment.piper.getInvocations().length, 1);
+			assert.deepStrictEqual(environment.player.getRecordings().map(recording => recording.pcm), [fakePcm('Play it twice.'), fakePcm('Play it twice.')]);
+		} finally {
+			await updateSettings({ cacheSize: 0 });
+		}
+	});
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { fakePcm } from './support/fakePiper';
+import { canRunNodeScripts } from './support/nodeScript';
+import { SpeechTestEnvironment, updateSettings, waitForEvent } from './support/testEnvironment';
+
+async function openEditor(content: string): Promise<vscode.TextEditor> {
+	const document = await vscode.workspace.openTextDocument({ content, language: 'plaintext' });
+	return vscode.window.showTextDocument(document);
+}
+
+function selectText(editor: vscode.TextEditor, text: string, cursorOnly = false) {
+	const offset = editor.document.getText().indexOf(text);
+	const start = editor.document.positionAt(offset);
+	const end = cursorOnly ? start : editor.document.positionAt(offset + text.length);
+	editor.selection = new vscode.Selection(start, end);
+}
+
+suite('Commands', () => {
+	let environment: SpeechTestEnvironment;
+
+	suiteSetup(async function () {
+		if (!canRunNodeScripts) {
+			this.skip();
+		}
+		environment = await SpeechTestEnvironment.create();
+	});
+
+	suiteTeardown(async () => {
+		await environment?.dispose();
+	});
+
+	setup(() => {
+		environment.reset();
+	});
+
+	teardown(async () => {
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+	});
+
+	test('Read Aloud reads the selection', async () => {
+		const editor = await openEditor('Not this one. Read this sentence. Nor this one.');
+		selectText(editor, 'Read this sentence.');
+		await vscode.commands.executeCommand('piper-tts.readAloud');
+
+		const invocations = environment.piper.getInvocations();
+		assert.deepStrictEqual(invocations.map(invocation => invocation.text), ['Read this sentence.']);
+		assert.deepStrictEqual(environment.player.getRecordings().map(recording => recording.pcm), [fakePcm('Read this sentence.')]);
+	});
+
+	test('Read Document reads every sentence', async () => {
+		await openEditor('One. Two.\n\nThree.');
+		await vscode.commands.executeCommand('piper-tts.readDocument');
+
+		assert.deepStrictEqual(environment.player.getRecordings().map(recording => recording.pcm), [fakePcm('One.'), fakePcm('Two.'), fakePcm('Three.')]);
+	});
+
+	test('Read from Cursor starts at the sentence under the cursor', async () => {
+		const editor = await openEditor('Skipped. Started here. Continued.');
+		selectText(editor, 'here', true);
+		await vscode.commands.executeCommand('piper-tts.readFromCursor');
+
+		assert.deepStrictEqual(environment.piper.getInvocations().map(invocation => invocation.text), ['Started here.', 'Continued.']);
+	});
+
+	test('Stop Playback ends speech', async () => {
+		environment.player.hold();
+		const utterance = environment.api.readText('Stop me.');
+		await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === utterance.id);
+
+		const finished = waitForEvent(environment.api.onDidFinishSpeaking);
+		await vscode.commands.executeCommand('piper-tts.stopPlayback');
+
+		assert.strictEqual((await finished).reason, 'cancelled');
+		await utterance;
+		assert.strictEqual(environment.api.getState(), 'idle');
+	});
+
+	test('Toggle Pause pauses and resumes', async () => {
+		environment.player.hold();
+		const utterance = environment.api.readText('Toggle me.');
+		await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === utterance.id);
+
+		await vscode.commands.executeCommand('piper-tts.togglePause');
+		assert.strictEqual(environment.api.getState(), 'paused');
+		await vscode.commands.executeCommand('piper-tts.togglePause');
+		assert.strictEqual(environment.api.getState(), 'playing');
+
+		await vscode.commands.executeCommand('piper-tts.stopPlayback');
+		await utterance;
+	});
+
+	test('Skip moves on to the next queued utterance', async () => {
+		environment.player.hold();
+		const first = environment.api.readText('Skipped.');
+		const second = environment.api.enqueue('Played next.');
+		await waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === first.id);
+
+		const next = waitForEvent(environment.api.onDidStartSpeaking, event => event.utteranceId === second.id);
+		await vscode.commands.executeCommand('piper-tts.skip');
+		await first;
+		await next;
+
+		environment.player.release();
+		await second;
+	});
+
+	test('Faster and Slower adjust the length scale', async () => {
+		try {
+			await vscode.commands.executeCommand('piper-tts.faster');
+			assert.strictEqual(vscode.workspace.getConfiguration('piper-tts').get('lengthScale'), 0.91);
+			await vscode.commands.executeCommand('piper-tts.slower');
+			assert.strictEqual(vscode.workspace.getConfiguration('piper-tts').get('lengthScale'), 1);
+
+			await environment.api.readText('At normal speed.');
+			const [invocation] = environment.piper.getInvocations();
+			assert.strictEqual(invocation.args[invocation.args.indexOf('--length_scale') + 1], '1');
+		} finally {
+			await updateSettings({ lengthScale: undefined });
+		}
+	});
+
+	test('Faster adjusts the length scale where it is set for the language', async () => {
+		const plaintext = () => vscode.workspace.getConfiguration('piper-tts', { languageId: 'plaintext' });
+		await openEditor('Some text.');
+		try {
+			await plaintext().update('lengthScale', 2, vscode.ConfigurationTarget.Global, true);
+			await vscode.commands.executeCommand('piper-tts.faster');
+
+			assert.strictEqual(plaintext().inspect('lengthScale')?.globalLanguageValue, 1.82);
+			assert.strictEqual(plaintext().inspect('lengthScale')?.globalValue, undefined);
+		} finally {
+			await plaintext().update('lengthScale', undefined, vscode.ConfigurationTarget.Global, true);
+		}
+	});
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DownloadCancelledError, DownloadVerificationError, downloadFile, getPartialDownloadPath } from '../downloadManager';
+import { createTempDir } from './support/testEnvironment';
+import { VoiceServer } from './support/voiceServer';
+
+const MODEL = Buffer.from('fake voice model '.repeat(1000));
+
+suite('Downloads', () => {
+	let server: VoiceServer;
+	let directory: string;
+	let destination: string;
+
+	suiteSetup(async () => {
+		server = await VoiceServer.start();
+	});
+
+	suiteTeardown(async () => {
+		await server?.close();
+	});
+
+	setup(() => {
+		server.clear();
+		server.setRoute('/model.onnx', { body: MODEL });
+		directory = createTempDir();
+		destination = path.join(directory, 'voices', 'model.onnx');
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('downloads a file and reports progress', async () => {
+		const progress: number[] = [];
+		await downloadFile(server.url('/model.onnx'), destination, {
+			expectedSize: MODEL.length,
+			onProgress: received => progress.push(received)
+		});
+
+		assert.deepStrictEqual(fs.readFileSync(destination), MODEL);
+		assert.strictEqual(progress[progress.length - 1], MODEL.length);
+		assert.ok(!fs.existsSync(getPartialDownloadPath(destination)));
+	});
+
+	test('follows redirects', async () => {
+		server.setRoute('/resolve/model.onnx', { redirect: '/cdn/model.onnx' });
+		server.setRoute('/cdn/model.onnx', { redirect: server.url('/model.onnx') });
+		await downloadFile(server.url('/resolve/model.onnx'), destination);
+
+		assert.deepStrictEqual(fs.readFileSync(destination), MODEL);
+		assert.deepStrictEqual(server.requests.map(request => request.path), ['/resolve/model.onnx', '/cdn/model.onnx', '/model.onnx']);
+	});
+
+	test('gives up after too many redirects', async () => {
+		server.setRoute('/loop', { redirect: '/loop' });
+		await assert.rejects(downloadFile(server.url('/loop'), destination, { maxRedirects: 3 }), /Too many redirects/);
+
+		assert.strictEqual(server.requests.length, 4);
+		assert.ok(!fs.existsSync(destination));
+	});
+
+	test('reports HTTP errors', async () => {
+		await assert.rejects(downloadFile(server.url('/missing.onnx'), destination), /404/);
+		assert.ok(!fs.existsSync(destination));
+	});
+
+	test('resumes an interrupted download', async () => {
+		fs.mkdirSync(path.dirname(destination), { recursive: true });
+		fs.writeFileSync(getPartialDownloadPath(destination), MODEL.subarray(0, 1000));
+		await downloadFile(server.url('/model.onnx'), destination, { expectedSize: MODEL.length });
+
+		assert.deepStrictEqual(fs.readFileSync(destination), MODEL);
+		assert.strictEqual(server.requests[0].range, 'bytes=1000-');
+	});
+
+	test('rejects a corrupt download and discards it', async () => {
+		const expectedMd5 = crypto.createHash('md5').update('something else').digest('hex');
+		await assert.rejects(downloadFile(server.url('/model.onnx'), destination, { expectedMd5 }), DownloadVerificationError);
+
+		assert.ok(!fs.existsSync(destination));
+		assert.ok(!fs.existsSync(getPartialDownloadPath(destination)));
+	});
+
+	test('accepts a download with the expected checksum', async () => {
+		const expectedMd5 = crypto.createHash('md5').update(MODEL).digest('hex');
+		await downloadFile(server.url('/model.onnx'), destination, { expectedMd5 });
+
+		assert.deepStrictEqual(fs.readFileSync(destination), MODEL);
+	});
+
+	test('stops when cancelled', async () => {
+		const cancellation = new vscode.CancellationTokenSource();
+		cancellation.cancel();
+		await assert.rejects(downloadFile(server.url('/model.onnx'), destination, { token: cancellation.token }), DownloadCancelledError);
+
+		assert.ok(!fs.existsSync(destination));
+		assert.ok(!fs.existsSync(getPartialDownloadPath(destination)));
+	});
+});
@@ -1,15 +1,22 @@
 import * as assert from 'assert';
-
-// You can import and use all API from the 'vscode' module
-// as well as import your extension to test it
 import * as vscode from 'vscode';
-// import * as myExtension from '../../extension';
+import { API_VERSION } from '../api';
+import { EXTENSION_ID, activateExtension } from './support/testEnvironment';
 
 suite('Extension Test Suite', () => {
-	vscode.window.showInformationMessage('Start all tests.');
+	test('activates and exports the API', async () => {
+		const api = await activateExtension();
+
+		assert.strictEqual(api.apiVersion, API_VERSION);
+		assert.strictEqual(api.getState(), 'idle');
+		assert.strictEqual(typeof api.readText, 'function');
+	});
+
+	test('registers every contributed command', async () => {
+		await activateExtension();
+		const contributed: { command: string }[] = vscode.extensions.getExtension(EXTENSION_ID)!.packageJSON.contributes.commands;
+		const registered = new Set(await vscode.commands.getCommands(true));
 
-	test('Sample test', () => {
-		assert.strictEqual(-1, [1, 2, 3].indexOf(5));
-		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
+		assert.deepStrictEqual(contributed.filter(({ command }) => !registered.has(command)), []);
 	});
 });
@@ -0,0 +1,175 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckResult, HealthCheckEnvironment, formatHealthReport, runHealthCheck } from '../healthCheck';
+import { PiperExecutable, PiperNotFoundError } from '../piperBinary';
+import { getSymlinkMappings } from '../symlinkUtils';
+import { FakePiper } from './support/fakePiper';
+import { canRunNodeScripts, writeNodeScript } from './support/nodeScript';
+import { TEST_SAMPLE_RATE, TEST_VOICE, createTempDir, writeTestVoice } from './support/testEnvironment';
+
+function bundledPiper(command: string): PiperExecutable {
+	return { source: 'bundled', command, args: [], espeakDataPath: undefined, cwd: path.dirname(command) };
+}
+
+function summarize(results: CheckResult[]): string[] {
+	return results.map(result => `${result.name}: ${result.status}`);
+}
+
+suite('Health check', () => {
+	let directory: string;
+	let environment: HealthCheckEnvironment;
+
+	suiteSetup(function () {
+		if (!canRunNodeScripts) {
+			this.skip();
+		}
+	});
+
+	setup(() => {
+		directory = createTempDir();
+		const piper = new FakePiper(directory);
+		fs.mkdirSync(path.join(directory, 'espeak-ng-data'));
+		fs.writeFileSync(path.join(directory, 'espeak-ng-data', 'phontab'), '');
+		writeTestVoice(path.join(directory, 'voices'), TEST_VOICE);
+
+		environment = {
+			platform: 'linux',
+			getPiper: () => bundledPiper(piper.path),
+			voiceId: TEST_VOICE,
+			modelPath: path.join(directory, 'voices', `${TEST_VOICE}.onnx`),
+			getPlayerCommand: () => ({ command: piper.path, args: ['--play'], input: 'stdin' }),
+			synthesize: async () => ({ pcm: Buffer.alloc(TEST_SAMPLE_RATE * 2), format: { sampleRate: TEST_SAMPLE_RATE, channels: 1, bitsPerSample: 16 } })
+		};
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('a working installation passes every check', async () => {
+		const reported: CheckResult[] = [];
+		const results = await runHealthCheck(environment, result => reported.push(result));
+
+		assert.deepStrictEqual(summarize(results), [
+			'Piper binary: pass',
+			'Library links: skipped',
+			'Shared libraries: pass',
+			'espeak-ng data: pass',
+			'Voice model: pass',
+			'Audio player: pass',
+			'Test synthesis: pass'
+		]);
+		assert.deepStrictEqual(reported, results);
+		assert.match(results[6].detail, /^1\.0 s of audio at 16000 Hz/);
+	});
+
+	test('a missing binary skips the checks that need it', async () => {
+		environment.getPiper = () => bundledPiper(path.join(directory, 'missing', 'piper'));
+		const results = await runHealthCheck(environment);
+
+		assert.deepStrictEqual(summarize(results).filter(line => !line.endsWith('pass')), [
+			'Piper binary: fail',
+			'Library links: skipped',
+			'Shared libraries: skipped',
+			'espeak-ng data: fail',
+			'Test synthesis: skipped'
+		]);
+	});
+
+	test('broken library links and loader errors are reported', async () => {
+		const [mapping] = getSymlinkMappings();
+		fs.writeFileSync(path.join(directory, mapping.target), '');
+		const brokenPiper = writeNodeScript(directory, 'broken-piper', `
+			process.stderr.write('piper: error while loading shared libraries: libonnxruntime.so: cannot open shared object file\\n');
+			process.exit(127);
+		`);
+		environment.getPiper = () => bundledPiper(brokenPiper);
+
+		const results = await runHealthCheck(environment);
+		const links = results.find(result => result.name === 'Library links')!;
+		const libraries = results.find(result => result.name === 'Shared libraries')!;
+
+		assert.strictEqual(links.status, 'fail');
+		assert.ok(links.detail.includes(`${mapping.link} -> ${mapping.target}`));
+		assert.strictEqual(libraries.status, 'fail');
+		assert.strictEqual(libraries.detail, 'error while loading shared libraries: libonnxruntime.so: cannot open shared object file');
+		assert.strictEqual(results[results.length - 1].status, 'skipped');
+	});
+
+	test('a configured Piper is checked with its own espeak-ng data', async () => {
+		const piper = environment.getPiper();
+		environment.getPiper = () => ({ ...piper, source: 'setting', espeakDataPath: path.join(directory, 'espeak') });
+		const results = await runHealthCheck(environment);
+
+		assert.deepStrictEqual(results.slice(0, 4), [
+			{ name: 'Piper binary', status: 'pass', detail: `${piper.command} (piper-tts.piperPath)` },
+			{ name: 'Library links', status: 'skipped', detail: 'Only needed for the bundled Piper' },
+			{ name: 'Shared libraries', status: 'pass', detail: 'Piper 1.2.0 starts' },
+			{ name: 'espeak-ng data', status: 'fail', detail: `Not found at ${path.join(directory, 'espeak')} (piper-tts.espeakDataPath)` }
+		]);
+	});
+
+	test('a platform without Piper fails the binary check', async () => {
+		environment.getPiper = () => {
+			throw new PiperNotFoundError('There is no bundled Piper for linux riscv64');
+		};
+		const results = await runHealthCheck(environment);
+
+		assert.deepStrictEqual(results[0], { name: 'Piper binary', status: 'fail', detail: 'There is no bundled Piper for linux riscv64' });
+		assert.deepStrictEqual(summarize(results).filter(line => line.endsWith('skipped')), [
+			'Library links: skipped',
+			'Shared libraries: skipped',
+			'espeak-ng data: skipped',
+			'Test synthesis: skipped'
+		]);
+	});
+
+	test('voice, player and synthesis failures explain themselves', async () => {
+		fs.rmSync(path.join(directory, 'voices', `${TEST_VOICE}.onnx.json`));
+		environment.getPlayerCommand = () => {
+			throw new Error('No audio player found');
+		};
+		let results = await runHealthCheck(environment);
+		assert.match(results.find(result => result.name === 'Voice model')!.detail, /has no config/);
+		assert.strictEqual(results.find(result => result.name === 'Audio player')!.detail, 'No audio player found');
+
+		writeTestVoice(path.join(directory, 'voices'), TEST_VOICE);
+		environment.synthesize = () => Promise.reject(new Error('Piper process exited with code: 1. Synthesis failed'));
+		results = await runHealthCheck(environment);
+		assert.deepStrictEqual(results[results.length - 1], { name: 'Test synthesis', status: 'fail', detail: 'Piper process exited with code: 1. Synthesis failed' });
+	});
+
+	test('the built-in player is a warning when no player program was found', async () => {
+		environment.getPlayerCommand = () => ({ input: 'builtin', fallbackReason: 'No audio player found. Install one of paplay (pulseaudio-utils).' });
+		let results = await runHealthCheck(environment);
+		assert.deepStrictEqual(results.find(result => result.name === 'Audio player'), {
+			name: 'Audio player',
+			status: 'warning',
+			detail: 'No audio player found. Install one of paplay (pulseaudio-utils). Until then the built-in player plays each sentence once it is synthesized.'
+		});
+
+		environment.getPlayerCommand = () => ({ input: 'builtin' });
+		results = await runHealthCheck(environment);
+		assert.strictEqual(results.find(result => result.name === 'Audio player')!.status, 'pass');
+	});
+
+	test('the report is a Markdown table', () => {
+		const report = formatHealthReport([
+			{ name: 'Piper binary', status: 'pass', detail: '/opt/piper' },
+			{ name: 'Audio player', status: 'fail', detail: 'a | b\nc' }
+		], { 'OS': 'linux' });
+
+		assert.strictEqual(report, [
+			'# Piper TTS Diagnostics',
+			'',
+			'- OS: linux',
+			'',
+			'| Check | Status | Details |',
+			'| --- | --- | --- |',
+			'| Piper binary | ✅ Pass | /opt/piper |',
+			'| Audio player | ❌ Fail | a \\| b c |',
+			''
+		].join('\n'));
+	});
+});
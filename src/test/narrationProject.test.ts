@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CHAPTER_INDEX_FILE_NAME, ChapterIndex, NARRATION_MANIFEST_FILE_NAME, NarrationManifestError, PLAYLIST_FILE_NAME, RenderNarrationOptions, ResolvedChapter, renderNarrationProject } from '../narrationProject';
+import { createTempDir } from './support/testEnvironment';
+
+const DEFAULT_VOICE = 'en_US-default-medium';
+
+function writeFiles(directory: string, files: Record<string, string>) {
+	for (const [name, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(directory, name)), { recursive: true });
+		fs.writeFileSync(path.join(directory, name), content);
+	}
+}
+
+function readIndex(directory: string): ChapterIndex {
+	return JSON.parse(fs.readFileSync(path.join(directory, 'audio', CHAPTER_INDEX_FILE_NAME), 'utf8'));
+}
+
+suite('Narration projects', () => {
+	let directory: string;
+	let manifestPath: string;
+	let rendered: ResolvedChapter[];
+
+	// Writes the chapter's text instead of audio, one second per source
+	const options = (overrides: Partial<RenderNarrationOptions> = {}): RenderNarrationOptions => ({
+		getDefaultVoice: () => DEFAULT_VOICE,
+		isVoiceInstalled: () => true,
+		render: async (chapter, outputPath) => {
+			rendered.push(chapter);
+			fs.writeFileSync(outputPath, chapter.sources.map(source => source.text).join('\n'));
+			return chapter.sources.length;
+		},
+		...overrides
+	});
+
+	setup(() => {
+		directory = createTempDir();
+		manifestPath = path.join(directory, NARRATION_MANIFEST_FILE_NAME);
+		rendered = [];
+		writeFiles(directory, {
+			'intro.md': '# Welcome\n\nHello.',
+			'guide/2-usage.md': 'Use it.',
+			'guide/1-setup.md': 'Set it up.',
+			'guide/notes.json': '{}'
+		});
+		writeFiles(directory, {
+			[NARRATION_MANIFEST_FILE_NAME]: JSON.stringify({
+				title: 'Docs',
+				voice: 'en_US-project-medium',
+				rate: 1.2,
+				chapters: [
+					{ sources: ['intro.md'] },
+					{ title: 'The Guide', sources: ['guide'], voice: 'en_US-other-medium', speaker: 'bob', output: 'guide.wav' }
+				]
+			})
+		});
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('renders each chapter and writes the index and playlist', async () => {
+		const result = await renderNarrationProject(manifestPath, options());
+
+		assert.deepStrictEqual([result.rendered, result.skipped, result.cancelled], [2, 0, false]);
+		assert.deepStrictEqual(rendered.map(chapter => [chapter.title, chapter.voice, chapter.speaker, chapter.rate]), [
+			['Welcome', 'en_US-project-medium', undefined, 1.2],
+			['The Guide', 'en_US-other-medium', 'bob', 1.2]
+		]);
+		// Folders are read in name order, skipping other files
+		assert.deepStrictEqual(rendered[1].sources.map(source => [path.basename(source.path), source.languageId]), [['1-setup.md', 'markdown'], ['2-usage.md', 'markdown']]);
+		assert.strictEqual(fs.readFileSync(path.join(directory, 'audio', 'guide.wav'), 'utf8'), 'Set it up.\nUse it.');
+
+		const index = readIndex(directory);
+		assert.deepStrictEqual(index.chapters.map(chapter => [chapter.file, chapter.start, chapter.duration, chapter.sources]), [
+			['01-welcome.wav', 0, 1, ['intro.md']],
+			['guide.wav', 1, 2, ['guide/1-setup.md', 'guide/2-usage.md']]
+		]);
+		assert.strictEqual(
+			fs.readFileSync(path.join(directory, 'audio', PLAYLIST_FILE_NAME), 'utf8'),
+			'#EXTM3U\n#PLAYLIST:Docs\n#EXTINF:1,Welcome\n01-welcome.wav\n#EXTINF:2,The Guide\nguide.wav\n'
+		);
+	});
+
+	test('only changed chapters are rendered again', async () => {
+		await renderNarrationProject(manifestPath, options());
+		rendered = [];
+
+		writeFiles(directory, { 'guide/2-usage.md': 'Use it well.' });
+		const result = await renderNarrationProject(manifestPath, options());
+
+		assert.deepStrictEqual([result.rendered, result.skipped], [1, 1]);
+		assert.deepStrictEqual(rendered.map(chapter => chapter.title), ['The Guide']);
+		assert.strictEqual(readIndex(directory).chapters.length, 2);
+	});
+
+	test('a cancelled render continues where it stopped', async () => {
+		const cancellation = new vscode.CancellationTokenSource();
+		const first = await renderNarrationProject(manifestPath, options({
+			token: cancellation.token,
+			onChapterStart: (_chapter, index) => {
+				if (index === 1) {
+					cancellation.cancel();
+				}
+			}
+		}));
+
+		assert.deepStrictEqual([first.rendered, first.cancelled], [1, true]);
+		assert.ok(!fs.existsSync(path.join(directory, 'audio', 'guide.wav')));
+		assert.ok(!fs.existsSync(path.join(directory, 'audio', 'guide.wav.partial')));
+		assert.deepStrictEqual(readIndex(directory).chapters.map(chapter => chapter.file), ['01-welcome.wav']);
+
+		rendered = [];
+		const second = await renderNarrationProject(manifestPath, options());
+		assert.deepStrictEqual([second.rendered, second.skipped, second.cancelled], [1, 1, false]);
+		assert.deepStrictEqual(rendered.map(chapter => chapter.title), ['The Guide']);
+	});
+
+	test('invalid projects are rejected before rendering', async () => {
+		await assert.rejects(renderNarrationProject(manifestPath, options({ isVoiceInstalled: voice => voice !== 'en_US-other-medium' })), /not installed: en_US-other-medium/);
+
+		const invalid: [unknown, RegExp][] = [
+			[{ chapters: [] }, /no chapters/],
+			[{ chapters: [{ sources: ['missing.md'] }] }, /source "missing.md" does not exist/],
+			[{ chapters: [{ sources: ['intro.md'], rate: 0 }] }, /chapter 1 has an invalid rate/],
+			[{ format: 'flac', chapters: [{ sources: ['intro.md'] }] }, /unsupported format "flac"/],
+			[{ chapters: [{ sources: ['intro.md'], output: 'same.wav' }, { sources: ['guide'], output: 'same.wav' }] }, /same output file/]
+		];
+		for (const [manifest, message] of invalid) {
+			writeFiles(directory, { [NARRATION_MANIFEST_FILE_NAME]: JSON.stringify(manifest) });
+			await assert.rejects(renderNarrationProject(manifestPath, options()), (error: unknown) => error instanceof NarrationManifestError && message.test(error.message));
+		}
+		assert.deepStrictEqual(rendered, []);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PiperExecutable, getBundledPiperPath, getPiperCommandArgs, parsePiperVersion, resolvePiperExecutable } from '../piperBinary';
+import { canRunNodeScripts } from './support/nodeScript';
+import { EXTENSION_ID, SpeechTestEnvironment, updateSettings } from './support/testEnvironment';
+
+suite('Piper binary', () => {
+	let environment: SpeechTestEnvironment;
+	let extensionPath: string;
+
+	suiteSetup(async function () {
+		if (!canRunNodeScripts) {
+			this.skip();
+		}
+		environment = await SpeechTestEnvironment.create();
+		extensionPath = vscode.extensions.getExtension(EXTENSION_ID)!.extensionPath;
+	});
+
+	suiteTeardown(async () => {
+		await environment?.dispose();
+	});
+
+	setup(() => {
+		environment.reset();
+	});
+
+	teardown(async () => {
+		await updateSettings({ piperPath: environment.piper.path, piperCommand: undefined, espeakDataPath: undefined });
+	});
+
+	test('a command template puts Piper\'s arguments in place of ${args}', () => {
+		const piper: PiperExecutable = { source: 'command', command: 'flatpak', args: ['run', 'piper', '${args}', '--quiet'], espeakDataPath: '/data', cwd: undefined };
+
+		assert.deepStrictEqual(getPiperCommandArgs(piper, ['--model', 'voice.onnx']), ['run', 'piper', '--espeak_data', '/data', '--model', 'voice.onnx', '--quiet']);
+		assert.deepStrictEqual(getPiperCommandArgs({ ...piper, args: ['run'], espeakDataPath: undefined }, ['--help']), ['run', '--help']);
+		assert.strictEqual(parsePiperVersion('1.2.0\n'), '1.2.0');
+		assert.strictEqual(parsePiperVersion('usage: piper [options]'), undefined);
+	});
+
+	test('speech is synthesized through piper-tts.piperCommand', async () => {
+		const espeakData = path.join(environment.directory, 'espeak-ng-data');
+		await updateSettings({ piperCommand: `"${environment.piper.path}" --wrapped \${args}`, espeakDataPath: espeakData });
+		await environment.api.readText('Hello.');
+
+		const [invocation] = environment.piper.getInvocations();
+		assert.deepStrictEqual(invocation.args.slice(0, 3), ['--wrapped', '--espeak_data', espeakData]);
+		assert.ok(invocation.args.includes('--model'));
+	});
+
+	test('piper-tts.piperPath is looked up on PATH', async () => {
+		const previousPath = process.env.PATH;
+		process.env.PATH = [path.dirname(environment.piper.path), previousPath].join(path.delimiter);
+		try {
+			await updateSettings({ piperPath: 'piper' });
+			const piper = resolvePiperExecutable(extensionPath);
+
+			assert.strictEqual(piper.source, 'setting');
+			assert.strictEqual(piper.command, environment.piper.path);
+		} finally {
+			process.env.PATH = previousPath;
+		}
+	});
+
+	test('a piperPath that does not exist falls back to the bundled Piper', async () => {
+		await updateSettings({ piperPath: path.join(environment.directory, 'missing', 'piper') });
+		const piper = resolvePiperExecutable(extensionPath);
+
+		assert.strictEqual(piper.source, 'bundled');
+		assert.strictEqual(piper.command, getBundledPiperPath(extensionPath));
+		assert.match(piper.fallbackReason!, /piper-tts\.piperPath\) was not found/);
+
+		// The fake piper stands in for the bundled binary, which is set aside while speaking
+		const bundledPath = piper.command;
+		const setAsidePath = `${bundledPath}.test-backup`;
+		const hasBundled = fs.existsSync(bundledPath);
+		if (hasBundled) {
+			fs.renameSync(bundledPath, setAsidePath);
+		}
+		try {
+			fs.copyFileSync(environment.piper.path, bundledPath);
+			await environment.api.readText('Still speaking.');
+			assert.deepStrictEqual(environment.piper.getInvocations().map(invocation => invocation.text), ['Still speaking.']);
+		} finally {
+			fs.rmSync(bundledPath, { force: true });
+			if (hasBundled) {
+				fs.renameSync(setAsidePath, bundledPath);
+			}
+		}
+	});
+});
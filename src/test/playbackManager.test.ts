@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+import { BuiltinPlayback } from '../audioPlayer';
+import { PcmFormat, pcmToWav } from '../audioUtils';
+import { PcmStream, PlaybackManager } from '../playbackManager';
+import { fakePcm } from './support/fakePiper';
+import { TEST_SAMPLE_RATE } from './support/testEnvironment';
+
+const FORMAT: PcmFormat = { sampleRate: TEST_SAMPLE_RATE, channels: 1, bitsPerSample: 16 };
+
+function synthesizeFake(text: string): PcmStream {
+	const stream = new PassThrough();
+	const done = new Promise<void>(resolve => stream.on('end', resolve));
+	stream.end(fakePcm(text));
+	stream.resume();
+	return { format: FORMAT, stream, done, cancel: () => stream.destroy() };
+}
+
+// Built-in playback that lasts until finish is called
+class ControlledPlayback implements BuiltinPlayback {
+	stopped = false;
+	readonly done: Promise<void>;
+	finish!: (error?: Error) => void;
+
+	constructor(readonly wav: Buffer) {
+		this.done = new Promise((resolve, reject) => {
+			this.finish = error => error ? reject(error) : resolve();
+		});
+	}
+
+	stop() {
+		this.stopped = true;
+		this.finish();
+	}
+}
+
+suite('Playback manager', () => {
+	let playbacks: ControlledPlayback[];
+	let manager: PlaybackManager;
+
+	setup(() => {
+		playbacks = [];
+		manager = new PlaybackManager({
+			synthesize: synthesizeFake,
+			getPlayerCommand: () => ({ input: 'builtin' }),
+			playWav: wav => {
+				const playback = new ControlledPlayback(wav);
+				playbacks.push(playback);
+				return playback;
+			}
+		});
+	});
+
+	teardown(() => {
+		manager.dispose();
+	});
+
+	async function waitForPlayback(count: number): Promise<ControlledPlayback> {
+		while (playbacks.length < count) {
+			await new Promise(resolve => setTimeout(resolve, 10));
+		}
+		return playbacks[count - 1];
+	}
+
+	test('the built-in player plays each sentence as a WAV once it is synthesized', async () => {
+		const first = manager.enqueue('First.');
+		const second = manager.enqueue('Second.');
+
+		(await waitForPlayback(1)).finish();
+		await first;
+		(await waitForPlayback(2)).finish();
+		await second;
+
+		assert.deepStrictEqual(playbacks.map(playback => playback.wav), [pcmToWav(fakePcm('First.'), FORMAT), pcmToWav(fakePcm('Second.'), FORMAT)]);
+		assert.strictEqual(manager.state, 'idle');
+	});
+
+	test('stopping stops the built-in player', async () => {
+		const utterance = manager.enqueue('Interrupted.');
+		const playback = await waitForPlayback(1);
+
+		manager.stop();
+		await utterance;
+		assert.ok(playback.stopped);
+	});
+
+	test('pausing stops the built-in player and resuming plays the rest', async () => {
+		const utterance = manager.enqueue('Paused and resumed.');
+		const playback = await waitForPlayback(1);
+
+		manager.pause();
+		assert.ok(playback.stopped);
+		assert.strictEqual(manager.state, 'paused');
+		manager.resume();
+		const resumed = await waitForPlayback(2);
+		assert.ok(resumed.wav.length <= playback.wav.length);
+		resumed.finish();
+		await utterance;
+	});
+
+	test('a built-in player error rejects the utterance', async () => {
+		const utterance = manager.enqueue('Cannot be played.');
+		(await waitForPlayback(1)).finish(new Error('media error 4'));
+
+		await assert.rejects(utterance, /media error 4/);
+	});
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { SsmlError, SsmlSpan, isSsml, parseSsml } from '../ssml';
+
+// What each span says and how, with the markup its text came from
+function summarize(markup: string) {
+	return parseSsml(markup).map((span: SsmlSpan) => {
+		const range = span.getSourceRange(0, span.text.length);
+		return {
+			text: span.text.trim(),
+			voice: span.voice,
+			rate: span.rate,
+			pauses: [span.pauseBefore, span.pauseAfter],
+			source: markup.slice(range.start, range.end).trim()
+		};
+	});
+}
+
+suite('SSML', () => {
+	test('recognizes SSML by its <speak> root', () => {
+		assert.ok(isSsml('<speak>Hello</speak>'));
+		assert.ok(isSsml('<?xml version="1.0"?>\n<speak version="1.1" xml:lang="en-US">Hello</speak>'));
+		assert.ok(!isSsml('Use <speak> to mark up speech'));
+		assert.ok(!isSsml('<speaker>Hello</speaker>'));
+	});
+
+	test('breaks become pauses around the text', () => {
+		assert.deepStrictEqual(summarize('<speak><break time="1s"/>One. <break strength="strong"/>Two.<break time="250ms"/><break/></speak>'), [
+			{ text: 'One.', voice: undefined, rate: 1, pauses: [1, 0.75], source: 'One.' },
+			{ text: 'Two.', voice: undefined, rate: 1, pauses: [0, 0.75], source: 'Two.' }
+		]);
+	});
+
+	test('prosody and voice start new spans', () => {
+		const spans = summarize('<speak>Normal <prosody rate="slow">slow <prosody rate="200%">fast</prosody></prosody> <voice name="de_DE-thorsten-medium">Hallo.</voice></speak>');
+		assert.deepStrictEqual(spans.map(span => [span.text, span.rate, span.voice]), [
+			['Normal', 1, undefined],
+			['slow', 0.75, undefined],
+			['fast', 1.5, undefined],
+			['Hallo.', 1, 'de_DE-thorsten-medium']
+		]);
+	});
+
+	test('rates accept keywords, percentages and multipliers', () => {
+		const rates = ['x-slow', '+20%', '-50%', '150%', '0.8'].map(rate => parseSsml(`<speak><prosody rate="${rate}">text</prosody></speak>`)[0].rate);
+		assert.deepStrictEqual(rates, [0.5, 1.2, 0.5, 1.5, 0.8]);
+	});
+
+	test('say-as and sub replace their content', () => {
+		const [span] = summarize('<speak>Call the <say-as interpret-as="characters">api</say-as> on the <sub alias="World Wide Web">WWW</sub> &amp; relax.</speak>');
+		assert.strictEqual(span.text, 'Call the A P I on the World Wide Web & relax.');
+	});
+
+	test('source ranges point into the markup', () => {
+		const markup = '<speak>Read <sub alias="this">that</sub> now.</speak>';
+		const [span] = parseSsml(markup);
+		const sub = span.text.indexOf('this');
+		const range = span.getSourceRange(sub, sub + 'this'.length);
+		assert.strictEqual(markup.slice(range.start, range.end), '<sub alias="this">that</sub>');
+		const now = span.getSourceRange(span.text.indexOf('now'), span.text.length);
+		assert.strictEqual(markup.slice(now.start, now.end), 'now.');
+	});
+
+	test('paragraphs and sentences are kept apart, other elements are read', () => {
+		const [span] = parseSsml('<speak><p><s>First</s><s>Second</s></p><emphasis>Third</emphasis><!-- note --></speak>');
+		assert.deepStrictEqual(span.text.split(/\n\n+/).map(text => text.trim()).filter(text => text), ['First', 'Second', 'Third']);
+	});
+
+	test('markup without text has no spans', () => {
+		assert.deepStrictEqual(parseSsml('<speak><break time="2s"/></speak>'), []);
+	});
+
+	test('invalid markup is rejected with its offset', () => {
+		const invalid: [string, RegExp][] = [
+			['<speak>Open <voice name="x">never closed</speak>', /offset 40: unexpected <\/speak>/],
+			['<speak>Unclosed', /<speak> is not closed/],
+			['<speak>a < b</speak>', /offset 9: malformed markup/],
+			['<speak>&nbsp;</speak>', /unknown entity &nbsp;/],
+			['<speak><break time="soon"/></speak>', /unsupported break time "soon"/],
+			['<speak><prosody rate="warp">x</prosody></speak>', /unsupported prosody rate "warp"/],
+			['<speak><voice>x</voice></speak>', /<voice> needs a name/],
+			['<speak>One</speak><speak>Two</speak>', /root element must be <speak>/]
+		];
+		for (const [markup, message] of invalid) {
+			assert.throws(() => parseSsml(markup), (error: unknown) => error instanceof SsmlError && message.test(error.message), markup);
+		}
+	});
+});
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeNodeScript } from './nodeScript';
+
+// Text containing this makes the fake piper fail, as a crashing model would
+export const FAILING_TEXT = 'piper-fail';
+
+export interface FakePiperInvocation {
+	// 'raw' for one-shot processes reading stdin, 'json' for each request to a persistent process
+	mode: 'raw' | 'json';
+	args: string[];
+	text: string;
+	speakerId?: number;
+}
+
+// Deterministic audio for a text: four samples per character derived from its code. Also runs inside the fake piper.
+export function fakePcm(text: string): Buffer {
+	const pcm = Buffer.alloc(text.length * 8);
+	for (let index = 0; index < text.length; index++) {
+		for (let sample = 0; sample < 4; sample++) {
+			pcm.writeInt16LE((text.charCodeAt(index) * 8 + sample) % 32768, (index * 4 + sample) * 2);
+		}
+	}
+	return pcm;
+}
+
+function getScript(logPath: string): string {
+	return `
+const fs = require('fs');
+const readline = require('readline');
+
+${fakePcm.toString()}
+
+function toWav(pcm) {
+	const header = Buffer.alloc(44);
+	header.write('RIFF', 0, 'ascii');
+	header.writeUInt32LE(36 + pcm.length, 4);
+	header.write('WAVEfmt ', 8, 'ascii');
+	header.writeUInt32LE(16, 16);
+	header.writeUInt16LE(1, 20);
+	header.writeUInt16LE(1, 22);
+	header.writeUInt32LE(22050, 24);
+	header.writeUInt32LE(44100, 28);
+	header.writeUInt16LE(2, 32);
+	header.writeUInt16LE(16, 34);
+	header.write('data', 36, 'ascii');
+	header.writeUInt32LE(pcm.length, 40);
+	return Buffer.concat([header, pcm]);
+}
+
+function log(entry) {
+	fs.appendFileSync(${JSON.stringify(logPath)}, JSON.stringify(entry) + '\\n');
+}
+
+function fail() {
+	process.stderr.write('Synthesis failed\\n');
+	process.exit(1);
+}
+
+const args = process.argv.slice(2);
+if (args.includes('--version')) {
+	process.stdout.write('1.2.0\\n');
+} else if (args.includes('--json-input')) {
+	readline.createInterface({ input: process.stdin }).on('line', line => {
+		if (!line.trim()) {
+			return;
+		}
+		const request = JSON.parse(line);
+		log({ mode: 'json', args, text: request.text, speakerId: request.speaker_id });
+		if (request.text.includes(${JSON.stringify(FAILING_TEXT)})) {
+			fail();
+		}
+		fs.writeFileSync(request.output_file, toWav(fakePcm(request.text)));
+		process.stdout.write(request.output_file + '\\n');
+	});
+} else {
+	const chunks = [];
+	process.stdin.on('data', chunk => chunks.push(chunk));
+	process.stdin.on('end', () => {
+		const text = Buffer.concat(chunks).toString('utf8');
+		const speaker = args.indexOf('--speaker');
+		log({ mode: 'raw', args, text, speakerId: speaker >= 0 ? Number(args[speaker + 1]) : undefined });
+		if (text.includes(${JSON.stringify(FAILING_TEXT)})) {
+			fail();
+		}
+		process.stdout.write(fakePcm(text));
+	});
+}
+`;
+}
+
+/**
+ * Stands in for the piper binary: answers both one-shot `--output-raw` and persistent `--json-input`
+ * use with fakePcm of the text, and logs every request so tests can check what the extension asked for.
+ */
+export class FakePiper {
+	readonly path: string;
+	private readonly logPath: string;
+
+	constructor(directory: string) {
+		this.logPath = path.join(directory, 'piper-log.jsonl');
+		this.path = writeNodeScript(directory, 'piper', getScript(this.logPath));
+	}
+
+	getInvocations(): FakePiperInvocation[] {
+		let log = '';
+		try {
+			log = fs.readFileSync(this.logPath, 'utf8');
+		} catch {
+			// Not run yet
+		}
+		return log.split('\n').filter(line => line).map(line => JSON.parse(line));
+	}
+
+	clearInvocations() {
+		fs.rmSync(this.logPath, { force: true });
+	}
+}
@@ -0,0 +1,20 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Write a Node.js script and an executable launcher for it, so the extension can spawn it like a native
+ * binary. The launcher runs the script with the editor's own runtime, there may be no node on PATH.
+ */
+export function writeNodeScript(directory: string, name: string, source: string): string {
+	fs.mkdirSync(directory, { recursive: true });
+	const scriptPath = path.join(directory, `${name}.js`);
+	fs.writeFileSync(scriptPath, source);
+
+	const launcherPath = path.join(directory, name);
+	fs.writeFileSync(launcherPath, `#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "${process.execPath}" "${scriptPath}" "$@"\n`);
+	fs.chmodSync(launcherPath, 0o755);
+	return launcherPath;
+}
+
+// Launchers are shell scripts, and Node refuses to spawn batch files without a shell
+export const canRunNodeScripts = process.platform !== 'win32';
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeNodeScript } from './nodeScript';
+
+export interface Recording {
+	// The ${sampleRate} ${channels} ${bitsPerSample} the extension filled into the player command
+	args: string[];
+	pcm: Buffer;
+}
+
+function getScript(recordingsDir: string, holdPath: string): string {
+	return `
+const fs = require('fs');
+const path = require('path');
+
+const chunks = [];
+process.stdin.on('data', chunk => chunks.push(chunk));
+process.stdin.on('end', () => {
+	const name = String(process.hrtime.bigint()).padStart(24, '0') + '-' + process.pid;
+	const recording = { args: process.argv.slice(2), pcm: Buffer.concat(chunks).toString('base64') };
+	fs.writeFileSync(path.join(${JSON.stringify(recordingsDir)}, name + '.json'), JSON.stringify(recording));
+
+	// While held, keep "playing" until the extension stops the player
+	const finish = () => fs.existsSync(${JSON.stringify(holdPath)}) ? setTimeout(finish, 20) : process.exit(0);
+	finish();
+});
+`;
+}
+
+/**
+ * A player for piper-tts.playerCommand that records the PCM it is sent instead of playing it.
+ * Each player process leaves one recording once its input ends.
+ */
+export class RecordingPlayer {
+	readonly command: string;
+	private readonly recordingsDir: string;
+	private readonly holdPath: string;
+
+	constructor(directory: string) {
+		this.recordingsDir = path.join(directory, 'recordings');
+		this.holdPath = path.join(directory, 'hold');
+		fs.mkdirSync(this.recordingsDir, { recursive: true });
+		const launcher = writeNodeScript(directory, 'player', getScript(this.recordingsDir, this.holdPath));
+		this.command = `"${launcher}" \${sampleRate} \${channels} \${bitsPerSample}`;
+	}
+
+	// Recordings in the order the players finished
+	getRecordings(): Recording[] {
+		return fs.readdirSync(this.recordingsDir).sort().map(fileName => {
+			const recording = JSON.parse(fs.readFileSync(path.join(this.recordingsDir, fileName), 'utf8'));
+			return { args: recording.args, pcm: Buffer.from(recording.pcm, 'base64') };
+		});
+	}
+
+	clearRecordings() {
+		for (const fileName of fs.readdirSync(this.recordingsDir)) {
+			fs.rmSync(path.join(this.recordingsDir, fileName), { force: true });
+		}
+	}
+
+	// Keep players running after their input ends, so speech can be stopped while it is "playing"
+	hold() {
+		fs.writeFileSync(this.holdPath, '');
+	}
+
+	release() {
+		fs.rmSync(this.holdPath, { force: true });
+	}
+}
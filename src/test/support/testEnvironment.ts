@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PiperTTSApi } from '../../api';
+import { FakePiper } from './fakePiper';
+import { RecordingPlayer } from './recordingPlayer';
+
+export const EXTENSION_ID = 'sethmiller.piper-tts';
+export const TEST_VOICE = 'en_US-test-medium';
+export const TEST_SAMPLE_RATE = 16000;
+
+export function createTempDir(): string {
+	return fs.mkdtempSync(path.join(os.tmpdir(), 'piper-tts-test-'));
+}
+
+// A voice the fake piper can "load": the model is never read, the config supplies the metadata
+export function writeTestVoice(directory: string, voiceId: string, speakers: string[] = []) {
+	fs.mkdirSync(directory, { recursive: true });
+	fs.writeFileSync(path.join(directory, `${voiceId}.onnx`), `fake model for ${voiceId}`);
+	fs.writeFileSync(path.join(directory, `${voiceId}.onnx.json`), JSON.stringify({
+		dataset: voiceId.split('-')[1],
+		audio: { sample_rate: TEST_SAMPLE_RATE, quality: voiceId.split('-')[2] },
+		language: { code: voiceId.split('-')[0], family: voiceId.split('_')[0] },
+		num_speakers: Math.max(1, speakers.length),
+		speaker_id_map: Object.fromEntries(speakers.map((speaker, index) => [speaker, index])),
+		inference: { noise_scale: 0.667, length_scale: 1, noise_w: 0.8 }
+	}));
+}
+
+// Write piper-tts settings to user settings, undefined removes them
+export async function updateSettings(values: Record<string, unknown>) {
+	const configuration = vscode.workspace.getConfiguration('piper-tts');
+	for (const [key, value] of Object.entries(values)) {
+		await configuration.update(key, value, vscode.ConfigurationTarget.Global);
+	}
+}
+
+export async function activateExtension(): Promise<PiperTTSApi> {
+	const extension = vscode.extensions.getExtension<PiperTTSApi>(EXTENSION_ID);
+	if (!extension) {
+		throw new Error(`Extension ${EXTENSION_ID} is not installed`);
+	}
+	return extension.activate();
+}
+
+// Wait for an event matching the predicate, failing after timeoutMs
+export function waitForEvent<T>(event: vscode.Event<T>, predicate: (value: T) => boolean = () => true, timeoutMs = 5000): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(() => {
+			listener.dispose();
+			reject(new Error(`Event not fired within ${timeoutMs} ms`));
+		}, timeoutMs);
+		const listener = event(value => {
+			if (predicate(value)) {
+				clearTimeout(timer);
+				listener.dispose();
+				resolve(value);
+			}
+		});
+	});
+}
+
+const SPEECH_SETTINGS = ['voice', 'voiceDirectories', 'player', 'playerCommand', 'cacheSize', 'persistentProcess', 'piperPath', 'piperCommand', 'espeakDataPath'];
+
+/**
+ * Routes the activated extension's speech through a FakePiper and a RecordingPlayer, with TEST_VOICE
+ * installed in a voice directory and the synthesis cache off. Dispose restores the user settings.
+ */
+export class SpeechTestEnvironment {
+	readonly directory = createTempDir();
+	readonly piper = new FakePiper(path.join(this.directory, 'piper'));
+	readonly player = new RecordingPlayer(path.join(this.directory, 'player'));
+	readonly voiceDirectory = path.join(this.directory, 'voices');
+
+	private constructor(readonly api: PiperTTSApi) {}
+
+	static async create(): Promise<SpeechTestEnvironment> {
+		const api = await activateExtension();
+		const environment = new SpeechTestEnvironment(api);
+		writeTestVoice(environment.voiceDirectory, TEST_VOICE);
+
+		await updateSettings({
+			piperPath: environment.piper.path,
+			voice: TEST_VOICE,
+			voiceDirectories: [environment.voiceDirectory],
+			player: 'custom',
+			playerCommand: environment.player.command,
+			cacheSize: 0
+		});
+		return environment;
+	}
+
+	// Forget what earlier tests played and synthesized
+	reset() {
+		this.api.stopPlayback();
+		this.player.release();
+		this.player.clearRecordings();
+		this.piper.clearInvocations();
+	}
+
+	async dispose() {
+		this.api.stopPlayback();
+		this.player.release();
+		await updateSettings(Object.fromEntries(SPEECH_SETTINGS.map(key => [key, undefined])));
+		fs.rmSync(this.directory, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,79 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export type VoiceServerRoute =
+	| { body: Buffer | string }
+	| { redirect: string }
+	| { status: number };
+
+export interface VoiceServerRequest {
+	path: string;
+	range?: string;
+}
+
+/**
+ * A local HTTP server standing in for the voice host. Serves fixed routes, honours Range requests
+ * like Hugging Face does, and records every request.
+ */
+export class VoiceServer {
+	readonly requests: VoiceServerRequest[] = [];
+	private readonly routes = new Map<string, VoiceServerRoute>();
+	private readonly server = http.createServer((request, response) => this.handle(request, response));
+
+	static async start(): Promise<VoiceServer> {
+		const voiceServer = new VoiceServer();
+		await new Promise<void>(resolve => voiceServer.server.listen(0, '127.0.0.1', resolve));
+		return voiceServer;
+	}
+
+	get baseUrl(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	url(routePath: string): string {
+		return `${this.baseUrl}${routePath}`;
+	}
+
+	setRoute(routePath: string, route: VoiceServerRoute) {
+		this.routes.set(routePath, route);
+	}
+
+	clear() {
+		this.routes.clear();
+		this.requests.length = 0;
+	}
+
+	close(): Promise<void> {
+		this.server.closeAllConnections();
+		return new Promise(resolve => this.server.close(() => resolve()));
+	}
+
+	private handle(request: http.IncomingMessage, response: http.ServerResponse) {
+		const routePath = new URL(request.url || '/', this.baseUrl).pathname;
+		const range = request.headers.range;
+		this.requests.push({ path: routePath, range });
+
+		const route = this.routes.get(routePath);
+		if (!route) {
+			response.writeHead(404).end();
+		} else if ('redirect' in route) {
+			response.writeHead(302, { Location: route.redirect }).end();
+		} else if ('status' in route) {
+			response.writeHead(route.status).end();
+		} else {
+			const body = typeof route.body === 'string' ? Buffer.from(route.body) : route.body;
+			const start = Number(range?.match(/^bytes=(\d+)-$/)?.[1]);
+			if (range && !(start < body.length)) {
+				response.writeHead(416).end();
+			} else if (range) {
+				response.writeHead(206, {
+					'Content-Length': body.length - start,
+					'Content-Range': `bytes ${start}-${body.length - 1}/${body.length}`
+				}).end(body.subarray(start));
+			} else {
+				response.writeHead(200, { 'Content-Length': body.length }).end(body);
+			}
+		}
+	}
+}
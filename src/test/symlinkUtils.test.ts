@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fixSymlinks, getLinuxArchitecture, getSymlinkMappings } from '../symlinkUtils';
+import { createTempDir } from './support/testEnvironment';
+
+// Libraries shipped as real files, the rest of the mappings link to links
+const LIBRARIES = ['libespeak-ng.so.1.52.0.1', 'libonnxruntime.so.1.14.1', 'libpiper_phonemize.so.1.2.0'];
+
+suite('Symlinks', () => {
+	let extensionPath: string;
+	let binaryDir: string;
+
+	suiteSetup(function () {
+		if (process.platform !== 'linux' || !getLinuxArchitecture()) {
+			this.skip();
+		}
+	});
+
+	setup(() => {
+		extensionPath = createTempDir();
+		binaryDir = path.join(extensionPath, 'piper', getLinuxArchitecture()!);
+		fs.mkdirSync(binaryDir, { recursive: true });
+	});
+
+	teardown(() => {
+		fs.rmSync(extensionPath, { recursive: true, force: true });
+	});
+
+	test('links every library name to its versioned file', async () => {
+		for (const library of LIBRARIES) {
+			fs.writeFileSync(path.join(binaryDir, library), library);
+		}
+		await fixSymlinks(extensionPath);
+
+		for (const { target, link } of getSymlinkMappings()) {
+			assert.strictEqual(fs.readlinkSync(path.join(binaryDir, link)), target);
+		}
+		assert.strictEqual(fs.readFileSync(path.join(binaryDir, 'libespeak-ng.so'), 'utf8'), 'libespeak-ng.so.1.52.0.1');
+	});
+
+	test('replaces files left where links belong', async () => {
+		for (const library of LIBRARIES) {
+			fs.writeFileSync(path.join(binaryDir, library), library);
+		}
+		// Unpacking without symlink support leaves copies or text files behind
+		fs.writeFileSync(path.join(binaryDir, 'libonnxruntime.so'), 'libonnxruntime.so.1.14.1');
+		await fixSymlinks(extensionPath);
+
+		assert.ok(fs.lstatSync(path.join(binaryDir, 'libonnxruntime.so')).isSymbolicLink());
+	});
+
+	test('skips links whose target is missing', async () => {
+		fs.writeFileSync(path.join(binaryDir, 'libonnxruntime.so.1.14.1'), '');
+		await fixSymlinks(extensionPath);
+
+		assert.ok(fs.lstatSync(path.join(binaryDir, 'libonnxruntime.so')).isSymbolicLink());
+		assert.ok(!fs.existsSync(path.join(binaryDir, 'libespeak-ng.so.1')));
+	});
+
+	test('does nothing without a binary directory', async () => {
+		fs.rmSync(path.join(extensionPath, 'piper'), { recursive: true });
+		await fixSymlinks(extensionPath);
+
+		assert.deepStrictEqual(fs.readdirSync(extensionPath), []);
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { VoiceCatalog } from '../voiceCatalog';
+import { createTempDir, updateSettings } from './support/testEnvironment';
+import { VoiceServer } from './support/voiceServer';
+
+// The shape of voices.json in rhasspy/piper-voices, trimmed to one voice
+const UPSTREAM_CATALOG = {
+	'de_DE-thorsten-medium': {
+		name: 'thorsten',
+		quality: 'medium',
+		num_speakers: 1,
+		language: { code: 'de_DE', family: 'de', name_english: 'German', country_english: 'Germany' },
+		files: {
+			'de/de_DE/thorsten/medium/de_DE-thorsten-medium.onnx': { size_bytes: 63201294, md5_digest: 'e0d5f6a8f8c2b6e3d4c5b6a7f8e9d0c1' },
+			'de/de_DE/thorsten/medium/de_DE-thorsten-medium.onnx.json': { size_bytes: 4831, md5_digest: 'a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6' },
+			'de/de_DE/thorsten/medium/MODEL_CARD': { size_bytes: 281, md5_digest: '0f1e2d3c4b5a69788796a5b4c3d2e1f0' }
+		}
+	}
+};
+
+suite('Voice catalog', () => {
+	let server: VoiceServer;
+	let directory: string;
+
+	suiteSetup(async () => {
+		server = await VoiceServer.start();
+	});
+
+	suiteTeardown(async () => {
+		await updateSettings({ voiceCatalogUrl: undefined });
+		await server?.close();
+	});
+
+	setup(async () => {
+		server.clear();
+		directory = createTempDir();
+		fs.writeFileSync(path.join(directory, 'bundled.json'), '{}');
+		await updateSettings({ voiceCatalogUrl: server.url('/mirror/voices.json') });
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('refreshes from the configured mirror', async () => {
+		server.setRoute('/voices.json', { body: JSON.stringify(UPSTREAM_CATALOG) });
+		server.setRoute('/mirror/voices.json', { redirect: '/voices.json' });
+		const catalog = new VoiceCatalog(path.join(directory, 'bundled.json'), path.join(directory, 'cache.json'));
+		assert.ok(catalog.isStale());
+
+		await catalog.refresh();
+
+		const voice = catalog.findVoice('de_DE-thorsten-medium');
+		assert.ok(voice);
+		assert.strictEqual(voice.languageName, 'German (Germany)');
+		assert.strictEqual(voice.modelUrl, server.url('/mirror/de/de_DE/thorsten/medium/de_DE-thorsten-medium.onnx'));
+		assert.strictEqual(voice.configUrl, server.url('/mirror/de/de_DE/thorsten/medium/de_DE-thorsten-medium.onnx.json'));
+		assert.strictEqual(voice.modelSize, 63201294);
+		assert.ok(!catalog.isStale());
+
+		// Later sessions start from the cached catalog
+		const cached = new VoiceCatalog(path.join(directory, 'bundled.json'), path.join(directory, 'cache.json'));
+		assert.deepStrictEqual(cached.getVoices(), catalog.getVoices());
+		catalog.dispose();
+		cached.dispose();
+	});
+
+	test('ignores a cache that is not in the expected format', () => {
+		fs.writeFileSync(path.join(directory, 'bundled.json'), JSON.stringify({
+			'German (de_DE)': { thorsten: { medium: { model: 'https://example.com/thorsten.onnx', config: 'https://example.com/thorsten.onnx.json' } } }
+		}));
+		fs.writeFileSync(path.join(directory, 'cache.json'), JSON.stringify({ source: 'https://example.com/voices.json', fetchedAt: Date.now(), voices: ['de_DE-thorsten-medium', { id: 'en_US-amy-low' }] }));
+		const catalog = new VoiceCatalog(path.join(directory, 'bundled.json'), path.join(directory, 'cache.json'));
+
+		assert.deepStrictEqual(catalog.getVoices().map(voice => voice.id), ['de_DE-thorsten-medium']);
+		assert.strictEqual(catalog.findVoice('de_DE-thorsten-medium')?.modelUrl, 'https://example.com/thorsten.onnx');
+		catalog.dispose();
+	});
+
+	test('keeps the previous catalog when the mirror fails', async () => {
+		server.setRoute('/mirror/voices.json', { status: 500 });
+		const catalog = new VoiceCatalog(path.join(directory, 'bundled.json'), path.join(directory, 'cache.json'));
+
+		await assert.rejects(catalog.refresh(), /500/);
+		assert.deepStrictEqual(catalog.getVoices(), []);
+		assert.ok(!fs.existsSync(path.join(directory, 'cache.json')));
+		catalog.dispose();
+	});
+});
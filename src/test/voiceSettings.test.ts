@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { removeVoiceReferences } from '../voiceSettings';
+import { updateSettings } from './support/testEnvironment';
+
+const REMOVED_VOICE = 'en_US-removed-medium';
+const OTHER_VOICE = 'de_DE-kept-medium';
+
+function inspect<T>(key: string, languageId?: string) {
+	return vscode.workspace.getConfiguration('piper-tts', languageId ? { languageId } : undefined).inspect<T>(key);
+}
+
+function updateLanguageSetting(languageId: string, key: string, value: unknown): Thenable<void> {
+	return vscode.workspace.getConfiguration('piper-tts', { languageId }).update(key, value, vscode.ConfigurationTarget.Global, true);
+}
+
+suite('Voice settings', () => {
+	teardown(async () => {
+		await updateSettings({ voice: undefined, speaker: undefined, voicesByLanguage: undefined });
+		await updateLanguageSetting('markdown', 'voice', undefined);
+	});
+
+	test('removing a voice resets the settings that use it', async () => {
+		await updateSettings({
+			voice: REMOVED_VOICE,
+			speaker: 'narrator',
+			voicesByLanguage: { de: OTHER_VOICE, en: REMOVED_VOICE }
+		});
+
+		assert.deepStrictEqual(await removeVoiceReferences(REMOVED_VOICE), ['User']);
+		assert.strictEqual(inspect('voice')?.globalValue, undefined);
+		assert.strictEqual(inspect('speaker')?.globalValue, undefined);
+		assert.deepStrictEqual(inspect('voicesByLanguage')?.globalValue, { de: OTHER_VOICE });
+	});
+
+	test('removing the last voice by language removes the setting', async () => {
+		await updateSettings({ voicesByLanguage: { en: REMOVED_VOICE } });
+
+		await removeVoiceReferences(REMOVED_VOICE);
+		assert.strictEqual(inspect('voicesByLanguage')?.globalValue, undefined);
+	});
+
+	test('language-specific settings are reset too', async () => {
+		await updateSettings({ voice: OTHER_VOICE });
+		await updateLanguageSetting('markdown', 'voice', REMOVED_VOICE);
+
+		assert.deepStrictEqual(await removeVoiceReferences(REMOVED_VOICE), ['User [markdown]']);
+		assert.strictEqual(inspect('voice', 'markdown')?.globalLanguageValue, undefined);
+		assert.strictEqual(inspect('voice')?.globalValue, OTHER_VOICE);
+	});
+
+	test('settings using other voices are left alone', async () => {
+		await updateSettings({ voice: OTHER_VOICE, speaker: 'narrator' });
+
+		assert.deepStrictEqual(await removeVoiceReferences(REMOVED_VOICE), []);
+		assert.strictEqual(inspect('voice')?.globalValue, OTHER_VOICE);
+		assert.strictEqual(inspect('speaker')?.globalValue, 'narrator');
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { VoiceStore } from '../voiceStore';
+import { createTempDir, writeTestVoice } from './support/testEnvironment';
+
+class MemoryMemento implements vscode.Memento {
+	private readonly values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, value);
+	}
+}
+
+suite('Voice store', () => {
+	let directory: string;
+	let extensionPath: string;
+	let storagePath: string;
+
+	setup(() => {
+		directory = createTempDir();
+		extensionPath = path.join(directory, 'extensions', 'sethmiller.piper-tts-1.1.0');
+		storagePath = path.join(directory, 'globalStorage');
+		writeTestVoice(path.join(extensionPath, 'voices'), 'en_US-hfc_female-medium');
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('voices downloaded into the extension folder move to global storage', async () => {
+		writeTestVoice(path.join(extensionPath, 'voices'), 'de_DE-thorsten-medium');
+		const store = new VoiceStore(extensionPath, storagePath);
+
+		await store.migrate(new MemoryMemento());
+
+		assert.strictEqual(store.findVoice('de_DE-thorsten-medium')?.source, 'downloaded');
+		assert.ok(!fs.existsSync(path.join(extensionPath, 'voices', 'de_DE-thorsten-medium.onnx')));
+		assert.strictEqual(store.findVoice('en_US-hfc_female-medium')?.source, 'bundled');
+		store.dispose();
+	});
+
+	test('voices in the folder of an earlier version move to global storage after an update', async () => {
+		const previousVoices = path.join(directory, 'extensions', 'sethmiller.piper-tts-1.0.3', 'voices');
+		writeTestVoice(previousVoices, 'en_US-hfc_female-medium');
+		writeTestVoice(previousVoices, 'fr_FR-siwis-medium');
+		const store = new VoiceStore(extensionPath, storagePath);
+
+		await store.migrate(new MemoryMemento());
+
+		const voice = store.findVoice('fr_FR-siwis-medium');
+		assert.strictEqual(voice?.source, 'downloaded');
+		assert.ok(fs.existsSync(`${voice.modelPath}.json`));
+		assert.ok(!fs.existsSync(path.join(previousVoices, 'fr_FR-siwis-medium.onnx')));
+		assert.ok(!fs.existsSync(path.join(storagePath, 'voices', 'en_US-hfc_female-medium.onnx')));
+		store.dispose();
+	});
+
+	test('migration runs once', async () => {
+		const state = new MemoryMemento();
+		await new VoiceStore(extensionPath, storagePath).migrate(state);
+		writeTestVoice(path.join(extensionPath, 'voices'), 'de_DE-thorsten-medium');
+		const store = new VoiceStore(extensionPath, storagePath);
+
+		await store.migrate(state);
+
+		assert.strictEqual(store.findVoice('de_DE-thorsten-medium')?.source, 'bundled');
+		store.dispose();
+	});
+});
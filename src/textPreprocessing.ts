@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { TextTransformer } from './api';
+import { log } from './logger';
+
+function stripMarkdown(text: string): string {
+    return text
+        // Fenced code blocks keep their content, only the fences go
+        .replace(/^[ \t]*(```|~~~)[^\n]*$/gm, '')
+        // Reference-style link definitions
+        .replace(/^[ \t]*\[[^\]]+\]:[ \t]*\S+.*$/gm, '')
+        // Horizontal rules and table separator rows
+        .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+        .replace(/^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)+\|?[ \t]*$/gm, '')
+        // Images and links read their text, not their target
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+        .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+        // HTML tags
+        .replace(/<\/?[A-Za-z][^>]*>/g, '')
+        // Headings get a full stop so piper pauses after them
+        .replace(/^[ \t]*#{1,6}[ \t]+(.*?)[ \t#]*$/gm, (_match, heading: string) => /[.!?:]$/.test(heading) ? heading : `${heading}.`)
+        // Block quotes and list markers
+        .replace(/^[ \t]*>[ \t]?/gm, '')
+        .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+(\[[ xX]\][ \t]+)?/gm, '')
+        // Emphasis, strikethrough and inline code
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+        .replace(/(^|[^\w*])\*(?=\S)([^*\n]+?)(?<=\S)\*(?!\w)/g, '$1$2')
+        .replace(/(^|[^\w])_(?=\S)([^_\n]+?)(?<=\S)_(?!\w)/g, '$1$2')
+        .replace(/~~(.+?)~~/g, '$1')
+        .replace(/`+([^`\n]+?)`+/g, '$1')
+        // Table cell borders
+        .replace(/[ \t]*\|[ \t]*/g, ', ')
+        .replace(/^, |, $/gm, '');
+}
+
+function splitIdentifiers(text: string): string {
+    return text.replace(/[A-Za-z][A-Za-z0-9]*(?:[_$][A-Za-z0-9]+)*/g, identifier => identifier
+        .replace(/[_$]+/g, ' ')
+        // "parseHTTPResponse" -> "parse HTTP Response"
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2'));
+}
+
+// Longest symbols first so "===" is not read as "equals equals equals"
+const PUNCTUATION_NAMES: [string, string][] = [
+    ['===', 'strict equals'],
+    ['!==', 'strict not equals'],
+    ['=>', 'arrow'],
+    ['->', 'arrow'],
+    ['==', 'equals equals'],
+    ['!=', 'not equals'],
+    ['<=', 'less than or equal'],
+    ['>=', 'greater than or equal'],
+    ['&&', 'and'],
+    ['||', 'or'],
+    ['++', 'plus plus'],
+    ['--', 'minus minus'],
+    ['+=', 'plus equals'],
+    ['-=', 'minus equals'],
+    ['::', 'double colon'],
+    ['{', 'open brace'],
+    ['}', 'close brace'],
+    ['(', 'open paren'],
+    [')', 'close paren'],
+    ['[', 'open bracket'],
+    [']', 'close bracket'],
+    ['<', 'less than'],
+    ['>', 'greater than'],
+    ['=', 'equals'],
+    [';', 'semicolon'],
+    ['!', 'not'],
+    ['&', 'ampersand'],
+    ['|', 'pipe'],
+    ['+', 'plus'],
+    ['*', 'star'],
+    ['/', 'slash'],
+    ['%', 'percent'],
+    ['#', 'hash'],
+    ['@', 'at'],
+    ['$', 'dollar'],
+    ['^', 'caret'],
+    ['~', 'tilde'],
+    ['\\', 'backslash'],
+    ['"', 'quote'],
+    ['`', 'backtick']
+];
+
+const PUNCTUATION_PATTERN = new RegExp(
+    PUNCTUATION_NAMES.map(([symbol]) => symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'),
+    'g'
+);
+
+function verbalizePunctuation(text: string): string {
+    const names = new Map(PUNCTUATION_NAMES);
+    return text
+        // Member access such as "config.get"
+        .replace(/(\w)\.(?=[A-Za-z_])/g, '$1 dot ')
+        .replace(PUNCTUATION_PATTERN, symbol => ` ${names.get(symbol)} `)
+        .replace(/[ \t]{2,}/g, ' ');
+}
+
+function shortenUrls(text: string): string {
+    return text.replace(/\b(?:https?|ftp):\/\/(?:www\.)?([^\s/?#:)\]>'"]+)[^\s)\]>'"]*/g, (_url, host: string) => `link to ${host}`);
+}
+
+export const BUILTIN_TRANSFORMERS: TextTransformer[] = [
+    { id: 'markdown', transform: stripMarkdown },
+    { id: 'splitIdentifiers', transform: splitIdentifiers },
+    { id: 'verbalizePunctuation', transform: verbalizePunctuation },
+    { id: 'shortenUrls', transform: shortenUrls }
+];
+
+// Applies the transformers configured for a language in piper-tts.textPreprocessing, plus any
+// transformers other extensions registered for that language
+export class TextPreprocessor {
+    private readonly transformers = new Map<string, TextTransformer>();
+
+    constructor() {
+        for (const transformer of BUILTIN_TRANSFORMERS) {
+            this.transformers.set(transformer.id, transformer);
+        }
+    }
+
+    register(transformer: TextTransformer): vscode.Disposable {
+        if (this.transformers.has(transformer.id)) {
+            throw new Error(`A text transformer with ID "${transformer.id}" is already registered`);
+        }
+        this.transformers.set(transformer.id, transformer);
+        return new vscode.Disposable(() => {
+            if (this.transformers.get(transformer.id) === transformer) {
+                this.transformers.delete(transformer.id);
+            }
+        });
+    }
+
+    getTransformerIds(languageId: string): string[] {
+        const config = vscode.workspace.getConfiguration('piper-tts').get<Record<string, string[]>>('textPreprocessing') || {};
+        const configured = config[languageId] ?? config['*'] ?? [];
+
+        const ids = [...configured];
+        for (const transformer of this.transformers.values()) {
+            if (transformer.languages?.includes(languageId) && !ids.includes(transformer.id)) {
+                ids.push(transformer.id);
+            }
+        }
+        return ids;
+    }
+
+    process(text: string, languageId: string): string {
+        let result = text;
+        for (const id of this.getTransformerIds(languageId)) {
+            const transformer = this.transformers.get(id);
+            if (!transformer) {
+                log.warn(`Unknown text transformer "${id}" configured for ${languageId}`);
+                continue;
+            }
+            try {
+                result = transformer.transform(result, { languageId });
+            } catch (error) {
+                // A broken transformer should not stop speech
+                log.error(`Text transformer "${id}" failed:`, error);
+            }
+        }
+        return result;
+    }
+}
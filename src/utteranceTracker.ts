@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { FinishReason, FinishSpeakingEvent, PlaybackQueueSnapshot, SentenceChangeEvent, SpeakingEvent, SpeechErrorEvent, TextRange, Utterance } from './api';
+import { PlaybackManager, SpeechOptions, UtteranceOutcome } from './playbackManager';
+
+// A sentence of an utterance, queued for playback on its own so progress can be reported per sentence
+export interface UtteranceSentence {
+    text: string;
+    range: TextRange;
+    options: SpeechOptions;
+    // Resolved voice ID, reported in events
+    voice: string;
+}
+
+interface TrackedUtterance {
+    id: number;
+    text: string;
+    sentences: UtteranceSentence[];
+    // Queue IDs of sentences still in the playback queue mapped to their index
+    queued: Map<number, number>;
+    started: boolean;
+    currentIndex?: number;
+    finished: boolean;
+    resolve(): void;
+    reject(error: unknown): void;
+}
+
+// Turns the sentence-level playback queue into per-call utterances with progress events for the API
+export class UtteranceTracker implements vscode.Disposable {
+    private readonly utterances = new Map<number, TrackedUtterance>();
+    private nextId = 1;
+
+    private readonly startEmitter = new vscode.EventEmitter<SpeakingEvent>();
+    private readonly sentenceEmitter = new vscode.EventEmitter<SentenceChangeEvent>();
+    private readonly finishEmitter = new vscode.EventEmitter<FinishSpeakingEvent>();
+    private readonly errorEmitter = new vscode.EventEmitter<SpeechErrorEvent>();
+    private readonly queueListener: vscode.Disposable;
+
+    readonly onDidStartSpeaking = this.startEmitter.event;
+    readonly onDidChangeSentence = this.sentenceEmitter.event;
+    readonly onDidFinishSpeaking = this.finishEmitter.event;
+    readonly onDidError = this.errorEmitter.event;
+
+    constructor(private readonly manager: PlaybackManager) {
+        this.queueListener = manager.onDidChangeQueue(snapshot => this.onQueueChanged(snapshot));
+    }
+
+    // Queue the sentences of one call behind whatever is already queued
+    speak(text: string, sentences: UtteranceSentence[]): Utterance {
+        const [utterance, result] = this.track(text, sentences);
+
+        sentences.forEach((sentence, index) => {
+            const { id, done } = this.manager.queueUtterance(sentence.text, sentence.options);
+            utterance.queued.set(id, index);
+            done.then(
+                outcome => this.onSentenceDone(utterance, id, outcome),
+                error => this.onSentenceFailed(utterance, id, error)
+            );
+        });
+
+        if (sentences.length === 0) {
+            this.finish(utterance, 'completed');
+        } else {
+            // The queue event for a sentence that starts immediately fires before its ID is recorded
+            this.onQueueChanged(this.manager.getSnapshot());
+        }
+        return result;
+    }
+
+    // A call whose text could not be queued, e.g. invalid SSML, fails like one that failed while speaking
+    reject(text: string, error: unknown): Utterance {
+        const [utterance, result] = this.track(text, []);
+        this.fail(utterance, error);
+        return result;
+    }
+
+    private track(text: string, sentences: UtteranceSentence[]): [TrackedUtterance, Utterance] {
+        let resolve!: () => void;
+        let reject!: (error: unknown) => void;
+        const promise = new Promise<void>((promiseResolve, promiseReject) => {
+            resolve = promiseResolve;
+            reject = promiseReject;
+        });
+
+        const utterance: TrackedUtterance = {
+            id: this.nextId++,
+            text,
+            sentences,
+            queued: new Map(),
+            started: false,
+            finished: false,
+            resolve,
+            reject
+        };
+        this.utterances.set(utterance.id, utterance);
+
+        return [utterance, Object.assign(promise, {
+            id: utterance.id,
+            cancel: () => this.cancel(utterance)
+        })];
+    }
+
+    // The voice of the sentence being spoken, undefined when nothing started through the API is playing
+    getCurrentVoice(): string | undefined {
+        const current = this.manager.getSnapshot().current;
+        if (!current) {
+            return undefined;
+        }
+        for (const utterance of this.utterances.values()) {
+            const index = utterance.queued.get(current.id);
+            if (index !== undefined) {
+                return utterance.sentences[index].voice;
+            }
+        }
+        return undefined;
+    }
+
+    dispose() {
+        this.queueListener.dispose();
+        this.startEmitter.dispose();
+        this.sentenceEmitter.dispose();
+        this.finishEmitter.dispose();
+        this.errorEmitter.dispose();
+    }
+
+    private cancel(utterance: TrackedUtterance) {
+        if (!utterance.finished) {
+            this.manager.cancel([...utterance.queued.keys()]);
+        }
+    }
+
+    private onSentenceDone(utterance: TrackedUtterance, id: number, outcome: UtteranceOutcome) {
+        utterance.queued.delete(id);
+        if (utterance.finished) {
+            return;
+        }
+
+        // Skipping moves on to the next sentence, anything else that drops a sentence ends the utterance
+        if (outcome === 'cancelled') {
+            this.manager.cancel([...utterance.queued.keys()]);
+            this.finish(utterance, 'cancelled');
+        } else if (utterance.queued.size === 0) {
+            this.finish(utterance, 'completed');
+        }
+    }
+
+    private onSentenceFailed(utterance: TrackedUtterance, id: number, error: unknown) {
+        utterance.queued.delete(id);
+        if (utterance.finished) {
+            return;
+        }
+        this.manager.cancel([...utterance.queued.keys()]);
+        this.fail(utterance, error);
+    }
+
+    private fail(utterance: TrackedUtterance, error: unknown) {
+        this.errorEmitter.fire({
+            utteranceId: utterance.id,
+            message: error instanceof Error ? error.message : String(error)
+        });
+        this.finish(utterance, 'error', error);
+    }
+
+    private finish(utterance: TrackedUtterance, reason: FinishReason, error?: unknown) {
+        utterance.finished = true;
+        this.utterances.delete(utterance.id);
+
+        // Utterances that never started, e.g. cleared from the queue, only resolve
+        if (utterance.started || reason === 'error') {
+            this.finishEmitter.fire({ utteranceId: utterance.id, reason });
+        }
+        if (reason === 'error') {
+            utterance.reject(error);
+        } else {
+            utterance.resolve();
+        }
+    }
+
+    private onQueueChanged(snapshot: PlaybackQueueSnapshot) {
+        if (!snapshot.current) {
+            return;
+        }
+        for (const utterance of this.utterances.values()) {
+            const index = utterance.queued.get(snapshot.current.id);
+            if (index === undefined || index === utterance.currentIndex) {
+                continue;
+            }
+
+            const sentence = utterance.sentences[index];
+            if (!utterance.started) {
+                utterance.started = true;
+                this.startEmitter.fire({ utteranceId: utterance.id, text: utterance.text, voice: sentence.voice });
+            }
+            utterance.currentIndex = index;
+            this.sentenceEmitter.fire({
+                utteranceId: utterance.id,
+                sentenceIndex: index,
+                text: sentence.text,
+                range: sentence.range,
+                voice: sentence.voice
+            });
+        }
+    }
+}
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { downloadFile, getPartialDownloadPath } from './downloadManager';
+import { log } from './logger';
+
+export const CATALOG_CACHE_FILE_NAME = 'voice-catalog.json';
+export const DEFAULT_CATALOG_URL = 'https://huggingface.co/rhasspy/piper-voices/resolve/v1.0.0/voices.json';
+
+// Refresh automatically when the cached catalog is older than this
+const MAX_CATALOG_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface CatalogVoice {
+    // Voice ID as installed, e.g. "en_US-amy-medium"
+    id: string;
+    name: string;
+    quality: string;
+    languageCode: string;
+    // e.g. "English (United States)"
+    languageName: string;
+    numSpeakers?: number;
+    modelUrl: string;
+    configUrl: string;
+    modelSize?: number;
+    modelMd5?: string;
+    configSize?: number;
+    configMd5?: string;
+}
+
+interface CachedCatalog {
+    source: string;
+    fetchedAt: number;
+    voices: CatalogVoice[];
+}
+
+// JSON objects to read fields from, {} for anything else
+function asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+// The bundled voices.json: language label -> voice name -> quality -> { model, config } URLs
+function parseBundledCatalog(data: Record<string, unknown>): CatalogVoice[] {
+    const voices: CatalogVoice[] = [];
+    for (const [languageLabel, languageVoices] of Object.entries(data)) {
+        // "English (en_US)" -> "English", "en_US"
+        const languageCode = languageLabel.match(/\(([^)]+)\)/)?.[1] || languageLabel;
+        const languageName = languageLabel.replace(/\s*\([^)]*\)\s*$/, '');
+        for (const [name, qualities] of Object.entries(asRecord(languageVoices))) {
+            for (const [quality, urls] of Object.entries(asRecord(qualities))) {
+                const { model, config } = asRecord(urls);
+                if (typeof model !== 'string' || typeof config !== 'string') {
+                    continue;
+                }
+                voices.push({
+                    id: `${languageCode}-${name}-${quality}`,
+                    name,
+                    quality,
+                    languageCode,
+                    languageName,
+                    modelUrl: model,
+                    configUrl: config
+                });
+            }
+        }
+    }
+    return voices;
+}
+
+// The voices.json published with rhasspy/piper-voices, file paths are relative to the catalog
+function parseUpstreamCatalog(data: Record<string, unknown>, baseUrl: string): CatalogVoice[] {
+    const voices: CatalogVoice[] = [];
+    for (const [id, entry] of Object.entries(data)) {
+        const voice = asRecord(entry);
+        const files = asRecord(voice.files);
+        const modelPath = Object.keys(files).find(file => file.endsWith('.onnx'));
+        const configPath = Object.keys(files).find(file => file.endsWith('.onnx.json'));
+        if (!modelPath || !configPath) {
+            continue;
+        }
+
+        const model = asRecord(files[modelPath]);
+        const config = asRecord(files[configPath]);
+        const language = asRecord(voice.language);
+        const languageCode = optionalString(language.code) || id.split('-')[0];
+        const languageEnglish = optionalString(language.name_english);
+        const countryEnglish = optionalString(language.country_english);
+        const country = countryEnglish ? ` (${countryEnglish})` : '';
+        voices.push({
+            id,
+            name: optionalString(voice.name) || id,
+            quality: optionalString(voice.quality) || '',
+            languageCode,
+            languageName: languageEnglish ? `${languageEnglish}${country}` : languageCode,
+            numSpeakers: optionalNumber(voice.num_speakers),
+            modelUrl: new URL(modelPath, baseUrl).toString(),
+            configUrl: new URL(configPath, baseUrl).toString(),
+            modelSize: optionalNumber(model.size_bytes),
+            modelMd5: optionalString(model.md5_digest),
+            configSize: optionalNumber(config.size_bytes),
+            configMd5: optionalString(config.md5_digest)
+        });
+    }
+    return voices;
+}
+
+export function parseCatalog(data: unknown, baseUrl: string): CatalogVoice[] {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Voice catalog is not a JSON object');
+    }
+    const catalog = asRecord(data);
+    const first = Object.values(catalog)[0];
+    const voices = first && typeof first === 'object' && 'files' in first
+        ? parseUpstreamCatalog(catalog, baseUrl)
+        : parseBundledCatalog(catalog);
+    return voices.sort((a, b) => a.languageCode.localeCompare(b.languageCode) || a.id.localeCompare(b.id));
+}
+
+// A voice as written to the catalog cache, undefined when it lacks an ID or URLs
+function parseCachedVoice(data: unknown): CatalogVoice | undefined {
+    const voice = asRecord(data);
+    const id = optionalString(voice.id);
+    const modelUrl = optionalString(voice.modelUrl);
+    const configUrl = optionalString(voice.configUrl);
+    if (!id || !modelUrl || !configUrl) {
+        return undefined;
+    }
+    const languageCode = optionalString(voice.languageCode) || id.split('-')[0];
+    return {
+        id,
+        name: optionalString(voice.name) || id,
+        quality: optionalString(voice.quality) || '',
+        languageCode,
+        languageName: optionalString(voice.languageName) || languageCode,
+        numSpeakers: optionalNumber(voice.numSpeakers),
+        modelUrl,
+        configUrl,
+        modelSize: optionalNumber(voice.modelSize),
+        modelMd5: optionalString(voice.modelMd5),
+        configSize: optionalNumber(voice.configSize),
+        configMd5: optionalString(voice.configMd5)
+    };
+}
+
+// The catalog cache written by refresh, undefined when it is empty or was not written by this version
+function parseCachedCatalog(data: unknown): CachedCatalog | undefined {
+    const { source, fetchedAt, voices } = asRecord(data);
+    const timestamp = optionalNumber(fetchedAt);
+    if (typeof source !== 'string' || timestamp === undefined || !Array.isArray(voices) || voices.length === 0) {
+        return undefined;
+    }
+    const parsed: CatalogVoice[] = [];
+    for (const entry of voices) {
+        const voice = parseCachedVoice(entry);
+        if (!voice) {
+            return undefined;
+        }
+        parsed.push(voice);
+    }
+    return { source, fetchedAt: timestamp, voices: parsed };
+}
+
+// The configured catalog as a URL, local mirror files may be given as plain paths
+export function getCatalogUrl(): string {
+    const configured = vscode.workspace.getConfiguration('piper-tts').get<string>('voiceCatalogUrl')?.trim() || DEFAULT_CATALOG_URL;
+    if (/^(https?|file):/i.test(configured)) {
+        return configured;
+    }
+    return pathToFileURL(path.resolve(configured)).toString();
+}
+
+/**
+ * Voices available for download. Uses the catalog cached in global storage, falling back to the
+ * bundled voices.json, so browsing works offline; `refresh` fetches piper-tts.voiceCatalogUrl.
+ */
+export class VoiceCatalog implements vscode.Disposable {
+    private catalog: CachedCatalog | undefined;
+    private refreshing: Promise<void> | undefined;
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly bundledCatalogPath: string, private readonly cachePath: string) {}
+
+    getVoices(): CatalogVoice[] {
+        return this.load().voices;
+    }
+
+    findVoice(voiceId: string): CatalogVoice | undefined {
+        return this.getVoices().find(voice => voice.id === voiceId);
+    }
+
+    // When the catalog was fetched, undefined for the bundled catalog
+    get fetchedAt(): number | undefined {
+        const catalog = this.load();
+        return catalog.fetchedAt || undefined;
+    }
+
+    isStale(): boolean {
+        const catalog = this.load();
+        return catalog.source !== getCatalogUrl() || Date.now() - catalog.fetchedAt > MAX_CATALOG_AGE_MS;
+    }
+
+    refresh(): Promise<void> {
+        // Concurrent callers share one request
+        if (!this.refreshing) {
+            this.refreshing = this.fetch().finally(() => {
+                this.refreshing = undefined;
+            });
+        }
+        return this.refreshing;
+    }
+
+    // Refresh in the background when stale; failures are logged since the cached catalog still works
+    refreshIfStale() {
+        if (this.isStale()) {
+            this.refresh().catch(error => log.warn('Could not refresh the voice catalog:', error));
+        }
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+    }
+
+    private async fetch() {
+        const source = getCatalogUrl();
+        let content: string;
+        if (source.startsWith('file:')) {
+            content = await fs.promises.readFile(new URL(source), 'utf8');
+        } else {
+            const downloadPath = `${this.cachePath}.download`;
+            // The catalog may have changed since an interrupted attempt, so never resume it
+            fs.rmSync(getPartialDownloadPath(downloadPath), { force: true });
+            try {
+                await downloadFile(source, downloadPath);
+                content = await fs.promises.readFile(downloadPath, 'utf8');
+            } finally {
+                fs.rmSync(downloadPath, { force: true });
+            }
+        }
+
+        const voices = parseCatalog(JSON.parse(content), source);
+        if (voices.length === 0) {
+            throw new Error(`No voices found in the voice catalog at ${source}`);
+        }
+
+        this.catalog = { source, fetchedAt: Date.now(), voices };
+        await fs.promises.mkdir(path.dirname(this.cachePath), { recursive: true });
+        await fs.promises.writeFile(this.cachePath, JSON.stringify(this.catalog), 'utf8');
+        this.changeEmitter.fire();
+    }
+
+    private load(): CachedCatalog {
+        if (this.catalog) {
+            return this.catalog;
+        }
+
+        try {
+            const cached = parseCachedCatalog(JSON.parse(fs.readFileSync(this.cachePath, 'utf8')));
+            if (cached) {
+                this.catalog = cached;
+                return cached;
+            }
+            log.warn(`Ignoring the voice catalog cache at ${this.cachePath}, it is not in the expected format`);
+        } catch {
+            // Not fetched yet
+        }
+
+        let voices: CatalogVoice[] = [];
+        try {
+            voices = parseCatalog(JSON.parse(fs.readFileSync(this.bundledCatalogPath, 'utf8')), pathToFileURL(this.bundledCatalogPath).toString());
+        } catch (error) {
+            log.error('Error reading voices.json:', error);
+        }
+        this.catalog = { source: 'bundled', fetchedAt: 0, voices };
+        return this.catalog;
+    }
+}
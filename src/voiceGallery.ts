@@ -0,0 +1,325 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CatalogVoice, VoiceCatalog } from './voiceCatalog';
+import { VoiceStore } from './voiceStore';
+import { readVoiceMetadata } from './voiceMetadata';
+import { log } from './logger';
+
+export interface VoiceGalleryHost {
+    readonly catalog: VoiceCatalog;
+    readonly store: VoiceStore;
+    getActiveVoice(): string;
+    install(voice: CatalogVoice): Promise<boolean>;
+    select(voiceId: string): Promise<void>;
+    preview(voiceId: string): Promise<void>;
+}
+
+// A row in the gallery, as sent to the webview
+interface GalleryVoice {
+    id: string;
+    name: string;
+    quality: string;
+    languageCode: string;
+    languageName: string;
+    size?: number;
+    numSpeakers?: number;
+    installed: boolean;
+    active: boolean;
+    downloadable: boolean;
+}
+
+type GalleryMessage =
+    | { type: 'ready' }
+    | { type: 'refresh' }
+    | { type: 'download', id: string }
+    | { type: 'select', id: string }
+    | { type: 'preview', id: string };
+
+// Browse the voice catalog in a webview, with search, language and quality filters and previews of installed voices
+export class VoiceGallery implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private readonly downloading = new Set<string>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly host: VoiceGalleryHost) {
+        this.disposables.push(
+            host.catalog.onDidChange(() => this.update()),
+            host.store.onDidChangeVoices(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('piper-tts.voice')) {
+                    this.update();
+                }
+            })
+        );
+    }
+
+    show() {
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel('piper-tts.voiceGallery', 'Piper Voice Gallery', vscode.ViewColumn.Active, {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            });
+            this.panel.webview.html = this.getHtml(this.panel.webview);
+            this.panel.webview.onDidReceiveMessage((message: GalleryMessage) => this.onMessage(message));
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        }
+        this.host.catalog.refreshIfStale();
+    }
+
+    dispose() {
+        this.panel?.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+
+    private async onMessage(message: GalleryMessage) {
+        try {
+            switch (message.type) {
+                case 'ready':
+                    this.update();
+                    break;
+                case 'refresh':
+                    await this.host.catalog.refresh();
+                    break;
+                case 'download': {
+                    const voice = this.host.catalog.findVoice(message.id);
+                    if (voice && !this.downloading.has(voice.id)) {
+                        this.downloading.add(voice.id);
+                        this.update();
+                        try {
+                            await this.host.install(voice);
+                        } finally {
+                            this.downloading.delete(voice.id);
+                            this.update();
+                        }
+                    }
+                    break;
+                }
+                case 'select':
+                    await this.host.select(message.id);
+                    break;
+                case 'preview':
+                    await this.host.preview(message.id);
+                    break;
+            }
+        } catch (error) {
+            log.error('Voice gallery error:', error);
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+            this.update();
+        }
+    }
+
+    private getGalleryVoices(): GalleryVoice[] {
+        const activeVoice = this.host.getActiveVoice();
+        const installed = new Map(this.host.store.getVoices().map(voice => [voice.id, voice]));
+
+        const voices: GalleryVoice[] = this.host.catalog.getVoices().map(voice => ({
+            id: voice.id,
+            name: voice.name,
+            quality: voice.quality,
+            languageCode: voice.languageCode,
+            languageName: voice.languageName,
+            size: voice.modelSize,
+            numSpeakers: voice.numSpeakers,
+            installed: installed.has(voice.id),
+            active: voice.id === activeVoice,
+            downloadable: true
+        }));
+
+        // Voices from custom directories may not be in the catalog at all
+        const listed = new Set(voices.map(voice => voice.id));
+        for (const voice of installed.values()) {
+            if (listed.has(voice.id)) {
+                continue;
+            }
+            const metadata = readVoiceMetadata(voice.modelPath);
+            voices.push({
+                id: voice.id,
+                name: metadata.name,
+                quality: metadata.quality,
+                languageCode: metadata.language.code || voice.id.split('-')[0],
+                languageName: metadata.language.nameEnglish || metadata.language.code || voice.id.split('-')[0],
+                numSpeakers: metadata.numSpeakers,
+                installed: true,
+                active: voice.id === activeVoice,
+                downloadable: false
+            });
+        }
+        return voices;
+    }
+
+    private update() {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.webview.postMessage({
+            type: 'voices',
+            voices: this.getGalleryVoices(),
+            downloading: [...this.downloading],
+            fetchedAt: this.host.catalog.fetchedAt
+        });
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Piper Voice Gallery</title>
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    .toolbar { position: sticky; top: 0; display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 12px 0; background: var(--vscode-editor-background); }
+    input[type="search"], select { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 4px 6px; }
+    input[type="search"] { flex: 1; min-width: 200px; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    button:disabled { opacity: 0.5; cursor: default; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-widget-border, transparent); }
+    th { position: sticky; top: 48px; background: var(--vscode-editor-background); }
+    td.actions { white-space: nowrap; text-align: right; }
+    .badge { font-size: 0.85em; padding: 1px 6px; border-radius: 8px; color: var(--vscode-badge-foreground); background: var(--vscode-badge-background); }
+    .status { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <input id="search" type="search" placeholder="Search voices" aria-label="Search voices">
+    <select id="language" aria-label="Language"><option value="">All languages</option></select>
+    <select id="quality" aria-label="Quality"><option value="">All qualities</option></select>
+    <label><input id="installedOnly" type="checkbox"> Installed only</label>
+    <button id="refresh" class="secondary">Refresh Catalog</button>
+    <span id="status" class="status"></span>
+</div>
+<table>
+    <thead><tr><th>Voice</th><th>Language</th><th>Quality</th><th>Size</th><th>Speakers</th><th></th></tr></thead>
+    <tbody id="voices"></tbody>
+</table>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const elements = {
+        search: document.getElementById('search'),
+        language: document.getElementById('language'),
+        quality: document.getElementById('quality'),
+        installedOnly: document.getElementById('installedOnly'),
+        refresh: document.getElementById('refresh'),
+        status: document.getElementById('status'),
+        voices: document.getElementById('voices')
+    };
+    let state = { voices: [], downloading: [], fetchedAt: undefined };
+
+    function formatSize(bytes) {
+        if (bytes === undefined) {
+            return '';
+        }
+        return bytes < 1024 * 1024 ? (bytes / 1024).toFixed(1) + ' KB' : (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+    }
+
+    function fillSelect(select, values) {
+        const current = select.value;
+        while (select.options.length > 1) {
+            select.remove(1);
+        }
+        for (const [value, label] of values) {
+            select.add(new Option(label, value));
+        }
+        select.value = values.some(([value]) => value === current) ? current : '';
+    }
+
+    function button(label, onClick, secondary, disabled) {
+        const element = document.createElement('button');
+        element.textContent = label;
+        element.disabled = !!disabled;
+        if (secondary) {
+            element.className = 'secondary';
+        }
+        element.addEventListener('click', onClick);
+        return element;
+    }
+
+    function render() {
+        const search = elements.search.value.trim().toLowerCase();
+        const language = elements.language.value;
+        const quality = elements.quality.value;
+        const installedOnly = elements.installedOnly.checked;
+
+        const rows = state.voices.filter(voice =>
+            (!language || voice.languageCode === language) &&
+            (!quality || voice.quality === quality) &&
+            (!installedOnly || voice.installed) &&
+            (!search || [voice.id, voice.name, voice.languageName, voice.languageCode].some(value => value.toLowerCase().includes(search))));
+
+        elements.voices.replaceChildren(...rows.map(voice => {
+            const row = document.createElement('tr');
+            const name = document.createElement('td');
+            name.textContent = voice.name + ' ';
+            name.title = voice.id;
+            if (voice.active) {
+                const badge = document.createElement('span');
+                badge.className = 'badge';
+                badge.textContent = 'Active';
+                name.append(badge);
+            } else if (voice.installed) {
+                const badge = document.createElement('span');
+                badge.className = 'badge';
+                badge.textContent = 'Installed';
+                name.append(badge);
+            }
+            row.append(name);
+
+            for (const value of [voice.languageName + ' (' + voice.languageCode + ')', voice.quality, formatSize(voice.size), voice.numSpeakers > 1 ? String(voice.numSpeakers) : '']) {
+                const cell = document.createElement('td');
+                cell.textContent = value;
+                row.append(cell);
+            }
+
+            const actions = document.createElement('td');
+            actions.className = 'actions';
+            if (voice.installed) {
+                actions.append(button('Preview', () => vscode.postMessage({ type: 'preview', id: voice.id }), true));
+                actions.append(' ');
+                actions.append(button('Use', () => vscode.postMessage({ type: 'select', id: voice.id }), false, voice.active));
+            } else if (voice.downloadable) {
+                const downloading = state.downloading.includes(voice.id);
+                actions.append(button(downloading ? 'Downloading...' : 'Download', () => vscode.postMessage({ type: 'download', id: voice.id }), false, downloading));
+            }
+            row.append(actions);
+            return row;
+        }));
+
+        const installed = state.voices.filter(voice => voice.installed).length;
+        const catalogDate = state.fetchedAt ? 'catalog updated ' + new Date(state.fetchedAt).toLocaleString() : 'bundled catalog';
+        elements.status.textContent = rows.length + ' of ' + state.voices.length + ' voices, ' + installed + ' installed, ' + catalogDate;
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.type !== 'voices') {
+            return;
+        }
+        state = event.data;
+        const languages = new Map(state.voices.map(voice => [voice.languageCode, voice.languageName + ' (' + voice.languageCode + ')']));
+        fillSelect(elements.language, [...languages.entries()].sort((a, b) => a[1].localeCompare(b[1])));
+        const qualities = [...new Set(state.voices.map(voice => voice.quality).filter(Boolean))];
+        fillSelect(elements.quality, qualities.map(value => [value, value]));
+        render();
+    });
+
+    for (const element of [elements.search, elements.language, elements.quality, elements.installedOnly]) {
+        element.addEventListener('input', render);
+    }
+    elements.refresh.addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+    }
+}
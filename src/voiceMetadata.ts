@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger';
+
+export const DEFAULT_SAMPLE_RATE = 22050;
+
+export interface VoiceLanguage {
+    code: string;
+    family?: string;
+    region?: string;
+    nameNative?: string;
+    nameEnglish?: string;
+    countryEnglish?: string;
+}
+
+export interface VoiceInferenceDefaults {
+    noiseScale?: number;
+    lengthScale?: number;
+    noiseW?: number;
+}
+
+export interface VoiceMetadata {
+    id: string;
+    name: string;
+    quality: string;
+    sampleRate: number;
+    numSpeakers: number;
+    speakerIdMap: Record<string, number>;
+    language: VoiceLanguage;
+    inference: VoiceInferenceDefaults;
+    // False when the .onnx.json could not be read and values were derived from the voice ID
+    hasConfig: boolean;
+}
+
+interface CachedMetadata {
+    mtimeMs: number;
+    metadata: VoiceMetadata;
+}
+
+const metadataCache = new Map<string, CachedMetadata>();
+
+export function getVoiceConfigPath(modelPath: string): string {
+    return `${modelPath}.json`;
+}
+
+// Voice IDs follow the "<locale>-<name>-<quality>" convention used by the Piper voices repository
+function parseVoiceId(voiceId: string): { locale: string, name: string, quality: string } {
+    const parts = voiceId.split('-');
+    return {
+        locale: parts[0] || '',
+        name: parts.slice(1, parts.length > 2 ? -1 : undefined).join('-') || voiceId,
+        quality: parts.length > 2 ? parts[parts.length - 1] : ''
+    };
+}
+
+// JSON objects to read fields from, {} for anything else
+function asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function optionalNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+// config is the parsed .onnx.json, undefined when there is none; fields of the wrong type are ignored
+export function parseVoiceConfig(voiceId: string, config: unknown): VoiceMetadata {
+    const fromId = parseVoiceId(voiceId);
+    const { audio, language, inference, speaker_id_map, num_speakers, dataset } = asRecord(config);
+    const audioConfig = asRecord(audio);
+    const languageConfig = asRecord(language);
+    const inferenceConfig = asRecord(inference);
+
+    const speakerIdMap: Record<string, number> = {};
+    for (const [speaker, id] of Object.entries(asRecord(speaker_id_map))) {
+        if (typeof id === 'number' && Number.isInteger(id) && id >= 0) {
+            speakerIdMap[speaker] = id;
+        }
+    }
+
+    const sampleRate = optionalNumber(audioConfig.sample_rate);
+    const numSpeakers = optionalNumber(num_speakers);
+
+    return {
+        id: voiceId,
+        name: optionalString(dataset) || fromId.name,
+        quality: optionalString(audioConfig.quality) || fromId.quality,
+        sampleRate: sampleRate && sampleRate > 0 ? sampleRate : DEFAULT_SAMPLE_RATE,
+        numSpeakers: numSpeakers && numSpeakers > 0 ? numSpeakers : Math.max(1, Object.keys(speakerIdMap).length),
+        speakerIdMap,
+        language: {
+            code: optionalString(languageConfig.code) || fromId.locale,
+            family: optionalString(languageConfig.family),
+            region: optionalString(languageConfig.region),
+            nameNative: optionalString(languageConfig.name_native),
+            nameEnglish: optionalString(languageConfig.name_english),
+            countryEnglish: optionalString(languageConfig.country_english)
+        },
+        inference: {
+            noiseScale: optionalNumber(inferenceConfig.noise_scale),
+            lengthScale: optionalNumber(inferenceConfig.length_scale),
+            noiseW: optionalNumber(inferenceConfig.noise_w)
+        },
+        hasConfig: config !== undefined
+    };
+}
+
+// Read the .onnx.json that sits next to a voice model, falling back to what the voice ID tells us
+export function readVoiceMetadata(modelPath: string): VoiceMetadata {
+    const voiceId = path.basename(modelPath, '.onnx');
+    const configPath = getVoiceConfigPath(modelPath);
+
+    if (!fs.existsSync(configPath)) {
+        metadataCache.delete(configPath);
+        return parseVoiceConfig(voiceId, undefined);
+    }
+
+    const stats = fs.statSync(configPath);
+
+    const cached = metadataCache.get(configPath);
+    if (cached && cached.mtimeMs === stats.mtimeMs) {
+        return cached.metadata;
+    }
+
+    let metadata: VoiceMetadata;
+    try {
+        metadata = parseVoiceConfig(voiceId, JSON.parse(fs.readFileSync(configPath, 'utf8')));
+    } catch (error) {
+        log.error(`Error reading voice config ${configPath}:`, error);
+        metadata = parseVoiceConfig(voiceId, undefined);
+    }
+
+    metadataCache.set(configPath, { mtimeMs: stats.mtimeMs, metadata });
+    return metadata;
+}
+
+export function clearVoiceMetadataCache(modelPath?: string) {
+    if (modelPath) {
+        metadataCache.delete(getVoiceConfigPath(modelPath));
+    } else {
+        metadataCache.clear();
+    }
+}
+
+export function getVoiceLabel(metadata: VoiceMetadata): string {
+    // e.g. "English (en_US) - hfc female (medium)"
+    const language = metadata.language.nameEnglish
+        ? `${metadata.language.nameEnglish} (${metadata.language.code})`
+        : metadata.language.code.replace('_', ' ');
+    const name = metadata.name.replace(/_/g, ' ');
+    const quality = metadata.quality ? ` (${metadata.quality})` : '';
+    return `${language} - ${name}${quality}`;
+}
+
+export function getVoiceDetail(metadata: VoiceMetadata): string {
+    const details = [`${metadata.sampleRate / 1000} kHz`];
+    if (metadata.numSpeakers > 1) {
+        details.push(`${metadata.numSpeakers} speakers`);
+    }
+    if (metadata.language.countryEnglish) {
+        details.push(metadata.language.countryEnglish);
+    }
+    return details.join(' · ');
+}
+
+// Resolve a speaker given by name (from speaker_id_map) or numeric ID to the ID piper expects
+export function resolveSpeakerId(metadata: VoiceMetadata, speaker: string | number | undefined): number | undefined {
+    if (speaker === undefined || speaker === '' || metadata.numSpeakers <= 1) {
+        return undefined;
+    }
+
+    if (typeof speaker === 'string' && speaker in metadata.speakerIdMap) {
+        return metadata.speakerIdMap[speaker];
+    }
+
+    const id = typeof speaker === 'number' ? speaker : Number(speaker);
+    if (Number.isInteger(id) && id >= 0 && id < metadata.numSpeakers) {
+        return id;
+    }
+
+    throw new Error(`Unknown speaker "${speaker}" for voice ${metadata.id}`);
+}
+
+export function getSpeakerNames(metadata: VoiceMetadata): { name: string, id: number }[] {
+    const speakers = Object.entries(metadata.speakerIdMap).map(([name, id]) => ({ name, id }));
+    if (speakers.length === 0) {
+        // Some multi-speaker models only carry num_speakers without names
+        for (let id = 0; id < metadata.numSpeakers; id++) {
+            speakers.push({ name: String(id), id });
+        }
+    }
+    return speakers.sort((a, b) => a.id - b.id);
+}
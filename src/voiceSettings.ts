@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+
+export const DEFAULT_VOICE = 'en_US-hfc_female-medium';
+
+// Where a setting is written: user, workspace or workspace folder settings, optionally in a [language] block
+export interface SettingsTarget {
+    label: string;
+    description?: string;
+    target: vscode.ConfigurationTarget;
+    scope?: vscode.ConfigurationScope;
+    overrideInLanguage: boolean;
+}
+
+/**
+ * Settings such as piper-tts.voice can be set per workspace folder and per language, so they are
+ * resolved for the language of the text being read and the folder of the active editor.
+ */
+export function getSettingsScope(languageId?: string): vscode.ConfigurationScope | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    const language = languageId ?? document?.languageId;
+    return language ? { uri: document?.uri, languageId: language } : document?.uri;
+}
+
+export function getPiperConfiguration(languageId?: string): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('piper-tts', getSettingsScope(languageId));
+}
+
+// Offer user, workspace, folder and language-specific targets; with only one available no prompt is shown
+export async function pickSettingsTarget(placeHolder: string): Promise<SettingsTarget | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const languageId = vscode.window.activeTextEditor?.document.languageId;
+
+    const targets: SettingsTarget[] = [
+        { label: 'User', description: 'All workspaces', target: vscode.ConfigurationTarget.Global, overrideInLanguage: false }
+    ];
+    if (folders.length > 0) {
+        targets.push({ label: 'Workspace', description: 'This workspace only', target: vscode.ConfigurationTarget.Workspace, overrideInLanguage: false });
+    }
+    // Folder settings only differ from workspace settings in multi-root workspaces
+    if (vscode.workspace.workspaceFile) {
+        for (const folder of folders) {
+            targets.push({
+                label: `Folder: ${folder.name}`,
+                description: 'This workspace folder only',
+                target: vscode.ConfigurationTarget.WorkspaceFolder,
+                scope: folder.uri,
+                overrideInLanguage: false
+            });
+        }
+    }
+    if (languageId) {
+        targets.push({
+            label: `User, ${languageId} files`,
+            description: `[${languageId}] in user settings`,
+            target: vscode.ConfigurationTarget.Global,
+            scope: { languageId },
+            overrideInLanguage: true
+        });
+        if (folders.length > 0) {
+            targets.push({
+                label: `Workspace, ${languageId} files`,
+                description: `[${languageId}] in workspace settings`,
+                target: vscode.ConfigurationTarget.Workspace,
+                scope: { languageId },
+                overrideInLanguage: true
+            });
+        }
+    }
+
+    if (targets.length === 1) {
+        return targets[0];
+    }
+    return vscode.window.showQuickPick(targets, { placeHolder });
+}
+
+// The inspect() values from the most specific to the least, the way VS Code resolves a setting
+const SETTING_PRECEDENCE = [
+    { value: 'workspaceFolderLanguageValue', label: 'Folder', target: vscode.ConfigurationTarget.WorkspaceFolder, overrideInLanguage: true },
+    { value: 'workspaceLanguageValue', label: 'Workspace', target: vscode.ConfigurationTarget.Workspace, overrideInLanguage: true },
+    { value: 'globalLanguageValue', label: 'User', target: vscode.ConfigurationTarget.Global, overrideInLanguage: true },
+    { value: 'workspaceFolderValue', label: 'Folder', target: vscode.ConfigurationTarget.WorkspaceFolder, overrideInLanguage: false },
+    { value: 'workspaceValue', label: 'Workspace', target: vscode.ConfigurationTarget.Workspace, overrideInLanguage: false },
+    { value: 'globalValue', label: 'User', target: vscode.ConfigurationTarget.Global, overrideInLanguage: false }
+] as const;
+
+// The scope a setting currently takes its value from for the language and active editor, so that writing
+// there changes what is used; user settings when it is not set anywhere
+export function getEffectiveSettingsTarget(key: string, languageId?: string): SettingsTarget {
+    const scope = getSettingsScope(languageId);
+    const inspected = vscode.workspace.getConfiguration('piper-tts', scope).inspect(key);
+    const language = scope && 'languageId' in scope ? scope.languageId : undefined;
+    const found = SETTING_PRECEDENCE.find(entry => inspected?.[entry.value] !== undefined && (!entry.overrideInLanguage || language));
+    if (!found) {
+        return { label: 'User', target: vscode.ConfigurationTarget.Global, scope, overrideInLanguage: false };
+    }
+    return {
+        label: found.overrideInLanguage ? `${found.label} [${language}]` : found.label,
+        target: found.target,
+        scope,
+        overrideInLanguage: found.overrideInLanguage
+    };
+}
+
+export function updateSetting(target: SettingsTarget, key: string, value: unknown): Thenable<void> {
+    return vscode.workspace.getConfiguration('piper-tts', target.scope).update(key, value, target.target, target.overrideInLanguage || undefined);
+}
+
+interface SettingsLocation {
+    target: SettingsTarget;
+    read<T>(key: string): T | undefined;
+}
+
+// Every place piper-tts settings may be written, including [language] blocks that set one of the given keys
+function getSettingsLocations(keys: string[]): SettingsLocation[] {
+    const folders = vscode.workspace.workspaceFile ? vscode.workspace.workspaceFolders || [] : [];
+    const hasWorkspace = (vscode.workspace.workspaceFolders || []).length > 0;
+    const languageIds = new Set<string>();
+    for (const key of keys) {
+        for (const languageId of vscode.workspace.getConfiguration('piper-tts').inspect(key)?.languageIds || []) {
+            languageIds.add(languageId);
+        }
+    }
+
+    const locations: SettingsLocation[] = [];
+    for (const languageId of [undefined, ...languageIds]) {
+        const overrideInLanguage = languageId !== undefined;
+        const suffix = languageId ? ` [${languageId}]` : '';
+        const scope = (uri?: vscode.Uri): vscode.ConfigurationScope | undefined => languageId ? { uri, languageId } : uri;
+        const inspect = <T>(key: string, uri?: vscode.Uri) => vscode.workspace.getConfiguration('piper-tts', scope(uri)).inspect<T>(key);
+
+        locations.push({
+            target: { label: `User${suffix}`, target: vscode.ConfigurationTarget.Global, scope: scope(), overrideInLanguage },
+            read: <T>(key: string) => overrideInLanguage ? inspect<T>(key)?.globalLanguageValue : inspect<T>(key)?.globalValue
+        });
+        if (hasWorkspace) {
+            locations.push({
+                target: { label: `Workspace${suffix}`, target: vscode.ConfigurationTarget.Workspace, scope: scope(), overrideInLanguage },
+                read: <T>(key: string) => overrideInLanguage ? inspect<T>(key)?.workspaceLanguageValue : inspect<T>(key)?.workspaceValue
+            });
+        }
+        for (const folder of folders) {
+            locations.push({
+                target: { label: `${folder.name}${suffix}`, target: vscode.ConfigurationTarget.WorkspaceFolder, scope: scope(folder.uri), overrideInLanguage },
+                read: <T>(key: string) => overrideInLanguage
+                    ? inspect<T>(key, folder.uri)?.workspaceFolderLanguageValue
+                    : inspect<T>(key, folder.uri)?.workspaceFolderValue
+            });
+        }
+    }
+    return locations;
+}
+
+/**
+ * Remove a deleted voice from piper-tts.voice (with its speaker) and piper-tts.voicesByLanguage at every
+ * scope, so each falls back to the next scope or the default voice. Returns the labels of the changed scopes.
+ */
+export async function removeVoiceReferences(voiceId: string): Promise<string[]> {
+    const changed: string[] = [];
+    for (const location of getSettingsLocations(['voice', 'voicesByLanguage'])) {
+        let updated = false;
+
+        if (location.read<string>('voice') === voiceId) {
+            await updateSetting(location.target, 'voice', undefined);
+            await updateSetting(location.target, 'speaker', undefined);
+            updated = true;
+        }
+
+        const voicesByLanguage = location.read<Record<string, string>>('voicesByLanguage');
+        if (voicesByLanguage && Object.values(voicesByLanguage).includes(voiceId)) {
+            const remaining = Object.fromEntries(Object.entries(voicesByLanguage).filter(([, voice]) => voice !== voiceId));
+            await updateSetting(location.target, 'voicesByLanguage', Object.keys(remaining).length > 0 ? remaining : undefined);
+            updated = true;
+        }
+
+        if (updated) {
+            changed.push(location.target.label);
+        }
+    }
+    return changed;
+}
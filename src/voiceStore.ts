@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { log } from './logger';
+
+// Voices shipped inside the extension package, everything else in <extension>/voices was downloaded
+export const BUNDLED_VOICES = ['en_US-hfc_female-medium', 'en_US-hfc_male-medium'];
+
+const MIGRATION_STATE_KEY = 'piper-tts.voicesMigrated';
+
+// Installed versions live side by side as <publisher>.<name>-<version>, e.g. sethmiller.piper-tts-1.0.3
+const EXTENSION_FOLDER_PREFIX = 'sethmiller.piper-tts-';
+
+export type VoiceSource = 'downloaded' | 'custom' | 'bundled';
+
+export interface InstalledVoice {
+    id: string;
+    modelPath: string;
+    source: VoiceSource;
+}
+
+interface VoiceDirectory {
+    path: string;
+    source: VoiceSource;
+}
+
+function listModels(directory: string): string[] {
+    try {
+        return fs.readdirSync(directory)
+            .filter(file => file.endsWith('.onnx'))
+            .map(file => path.basename(file, '.onnx'));
+    } catch {
+        return [];
+    }
+}
+
+// Expand "~" and "${workspaceFolder}", and resolve relative paths against the first workspace folder
+function resolveCustomDirectory(directory: string): string | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    let resolved = directory.trim();
+    if (resolved.includes('${workspaceFolder}')) {
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        resolved = resolved.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
+    }
+    if (resolved === '~' || resolved.startsWith('~/') || resolved.startsWith('~\\')) {
+        resolved = path.join(os.homedir(), resolved.slice(1));
+    }
+    if (!path.isAbsolute(resolved)) {
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        resolved = path.join(workspaceFolder, resolved);
+    }
+    return resolved;
+}
+
+/**
+ * Locates voice models. Downloaded voices live in global storage so they survive extension updates,
+ * followed by the folders in piper-tts.voiceDirectories and the voices bundled with the extension.
+ * When a voice exists in several places the first one wins.
+ */
+export class VoiceStore implements vscode.Disposable {
+    readonly downloadDirectory: string;
+    private readonly bundledDirectory: string;
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    // Fired when voices are downloaded, removed or the voice directories change
+    readonly onDidChangeVoices = this.changeEmitter.event;
+
+    constructor(private readonly extensionPath: string, globalStoragePath: string) {
+        this.downloadDirectory = path.join(globalStoragePath, 'voices');
+        this.bundledDirectory = path.join(extensionPath, 'voices');
+    }
+
+    getVoices(): InstalledVoice[] {
+        const voices = new Map<string, InstalledVoice>();
+        for (const directory of this.getDirectories()) {
+            for (const id of listModels(directory.path)) {
+                if (!voices.has(id)) {
+                    voices.set(id, { id, modelPath: path.join(directory.path, `${id}.onnx`), source: directory.source });
+                }
+            }
+        }
+        return [...voices.values()];
+    }
+
+    findVoice(voiceId: string): InstalledVoice | undefined {
+        for (const directory of this.getDirectories()) {
+            const modelPath = path.join(directory.path, `${voiceId}.onnx`);
+            if (fs.existsSync(modelPath)) {
+                return { id: voiceId, modelPath, source: directory.source };
+            }
+        }
+        return undefined;
+    }
+
+    // Where the model is, or where it would be downloaded to
+    getModelPath(voiceId: string): string {
+        return this.findVoice(voiceId)?.modelPath ?? path.join(this.downloadDirectory, `${voiceId}.onnx`);
+    }
+
+    notifyChanged() {
+        this.changeEmitter.fire();
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Move voices downloaded into the extension folder by earlier versions to global storage. An update
+     * installs into a new folder, so the folders of other installed versions next to this one are searched
+     * too. Runs once; voices that cannot be deleted from a read-only install are copied and left behind.
+     */
+    async migrate(globalState: vscode.Memento): Promise<void> {
+        if (globalState.get<boolean>(MIGRATION_STATE_KEY)) {
+            return;
+        }
+
+        let moved = 0;
+        for (const directory of this.getLegacyDirectories()) {
+            const downloaded = listModels(directory).filter(id => !BUNDLED_VOICES.includes(id));
+            for (const id of downloaded) {
+                for (const fileName of [`${id}.onnx`, `${id}.onnx.json`]) {
+                    const source = path.join(directory, fileName);
+                    const destination = path.join(this.downloadDirectory, fileName);
+                    if (!fs.existsSync(source)) {
+                        continue;
+                    }
+                    try {
+                        fs.mkdirSync(this.downloadDirectory, { recursive: true });
+                        if (!fs.existsSync(destination)) {
+                            fs.copyFileSync(source, destination);
+                        }
+                        fs.unlinkSync(source);
+                        log.info(`Moved ${fileName} from ${directory} to ${this.downloadDirectory}`);
+                    } catch (error) {
+                        log.error(`Error moving ${fileName} to global storage:`, error);
+                    }
+                }
+            }
+            moved += downloaded.length;
+        }
+
+        await globalState.update(MIGRATION_STATE_KEY, true);
+        if (moved > 0) {
+            this.notifyChanged();
+        }
+    }
+
+    // The voices folder of this install, then those of other versions installed next to it
+    private getLegacyDirectories(): string[] {
+        const extensionsDirectory = path.dirname(this.extensionPath);
+        let siblings: string[] = [];
+        try {
+            siblings = fs.readdirSync(extensionsDirectory)
+                .filter(name => name.startsWith(EXTENSION_FOLDER_PREFIX))
+                .map(name => path.join(extensionsDirectory, name))
+                .filter(folder => path.resolve(folder) !== path.resolve(this.extensionPath));
+        } catch {
+            // Not installed in an extensions folder, e.g. during development
+        }
+        return [this.bundledDirectory, ...siblings.map(folder => path.join(folder, 'voices'))];
+    }
+
+    private getDirectories(): VoiceDirectory[] {
+        const configured = vscode.workspace.getConfiguration('piper-tts').get<string[]>('voiceDirectories') || [];
+        const custom = configured
+            .filter(directory => typeof directory === 'string' && directory.trim())
+            .map(resolveCustomDirectory)
+            .filter((directory): directory is string => directory !== undefined)
+            .map(directory => ({ path: directory, source: 'custom' as const }));
+
+        return [
+            { path: this.downloadDirectory, source: 'downloaded' },
+            ...custom,
+            { path: this.bundledDirectory, source: 'bundled' }
+        ];
+    }
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import { InstalledVoice, VoiceStore } from './voiceStore';
+import { getVoiceDetail, getVoiceLabel, readVoiceMetadata } from './voiceMetadata';
+
+export class LanguageTreeItem extends vscode.TreeItem {
+    constructor(readonly languageCode: string, label: string, readonly voices: InstalledVoice[]) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `language:${languageCode}`;
+        this.description = languageCode;
+        this.contextValue = 'language';
+    }
+}
+
+export class VoiceTreeItem extends vscode.TreeItem {
+    constructor(readonly voice: InstalledVoice, active: boolean) {
+        const metadata = readVoiceMetadata(voice.modelPath);
+        super(`${metadata.name} (${metadata.quality || 'unknown quality'})`, vscode.TreeItemCollapsibleState.None);
+        this.id = `voice:${voice.id}`;
+        this.description = active ? 'active' : voice.source === 'downloaded' ? undefined : voice.source;
+        this.iconPath = new vscode.ThemeIcon(active ? 'pass-filled' : 'person');
+        this.resourceUri = vscode.Uri.file(voice.modelPath);
+
+        // Custom directories are shared, so their voices cannot be removed from here
+        this.contextValue = ['voice', active ? 'active' : 'inactive', voice.source === 'custom' ? 'shared' : 'removable'].join('.');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${getVoiceLabel(metadata)}**\n\n`);
+        tooltip.appendText(`${voice.id}\n\n${getVoiceDetail(metadata)}`);
+        if (metadata.numSpeakers > 1) {
+            tooltip.appendText(` · ${metadata.numSpeakers} speakers`);
+        }
+        tooltip.appendText(`\n\n${voice.modelPath}`);
+        this.tooltip = tooltip;
+    }
+}
+
+export type VoiceTreeNode = LanguageTreeItem | VoiceTreeItem;
+
+// Installed voices grouped by language, for the Piper TTS view container
+export class VoiceTreeProvider implements vscode.TreeDataProvider<VoiceTreeNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private readonly store: VoiceStore, private readonly getActiveVoice: () => string) {
+        this.disposables.push(
+            store.onDidChangeVoices(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('piper-tts.voice')) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    refresh() {
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(element: VoiceTreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: VoiceTreeNode): VoiceTreeNode[] {
+        if (element instanceof LanguageTreeItem) {
+            const activeVoice = this.getActiveVoice();
+            return element.voices.map(voice => new VoiceTreeItem(voice, voice.id === activeVoice));
+        }
+        if (element) {
+            return [];
+        }
+
+        const languages = new Map<string, { label: string, voices: InstalledVoice[] }>();
+        for (const voice of this.store.getVoices()) {
+            const language = readVoiceMetadata(voice.modelPath).language;
+            const code = language.code || voice.id.split('-')[0];
+            if (!languages.has(code)) {
+                const country = language.countryEnglish ? ` (${language.countryEnglish})` : '';
+                languages.set(code, { label: language.nameEnglish ? `${language.nameEnglish}${country}` : code, voices: [] });
+            }
+            languages.get(code)!.voices.push(voice);
+        }
+
+        return [...languages.entries()]
+            .sort((a, b) => a[1].label.localeCompare(b[1].label))
+            .map(([code, language]) => new LanguageTreeItem(
+                code,
+                language.label,
+                language.voices.sort((a, b) => a.id.localeCompare(b.id))
+            ));
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { BuiltinPlayback } from './audioPlayer';
+
+type PlayerMessage =
+    | { type: 'ready' }
+    | { type: 'ended', id: number }
+    | { type: 'error', id: number, message: string };
+
+interface PendingPlayback {
+    resolve(): void;
+    reject(error: unknown): void;
+}
+
+/**
+ * The built-in player: plays WAV audio through an <audio> element in a webview, so speech works without
+ * an audio player program. The panel opens beside the editor without taking focus and is reused.
+ */
+export class WebviewPlayer implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    // Resolves with the panel once its script can receive messages
+    private ready: Promise<vscode.WebviewPanel> | undefined;
+    private resolveReady: (() => void) | undefined;
+    private readonly pending = new Map<number, PendingPlayback>();
+    private nextId = 1;
+
+    play(wav: Buffer): BuiltinPlayback {
+        const id = this.nextId++;
+        const done = new Promise<void>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+        });
+
+        this.getPanel().then(panel => {
+            if (this.pending.has(id)) {
+                panel.webview.postMessage({ type: 'play', id, audio: wav.toString('base64') });
+            }
+        });
+
+        return {
+            done,
+            stop: () => {
+                if (this.pending.has(id)) {
+                    this.panel?.webview.postMessage({ type: 'stop', id });
+                    this.settle(id);
+                }
+            }
+        };
+    }
+
+    dispose() {
+        this.panel?.dispose();
+    }
+
+    private getPanel(): Promise<vscode.WebviewPanel> {
+        if (this.ready) {
+            return this.ready;
+        }
+
+        const panel = vscode.window.createWebviewPanel('piper-tts.player', 'Piper TTS Audio', { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true }, {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        });
+        this.panel = panel;
+        this.ready = new Promise(resolve => {
+            this.resolveReady = () => resolve(panel);
+        });
+        panel.webview.html = this.getHtml();
+        panel.webview.onDidReceiveMessage((message: PlayerMessage) => this.onMessage(message));
+        panel.onDidDispose(() => {
+            this.panel = undefined;
+            this.ready = undefined;
+            this.resolveReady = undefined;
+            for (const id of [...this.pending.keys()]) {
+                this.settle(id, new Error('Playback stopped because the Piper TTS Audio panel was closed'));
+            }
+        });
+        return this.ready;
+    }
+
+    private onMessage(message: PlayerMessage) {
+        switch (message.type) {
+            case 'ready':
+                this.resolveReady?.();
+                break;
+            case 'ended':
+                this.settle(message.id);
+                break;
+            case 'error':
+                this.settle(message.id, new Error(`The built-in player could not play the audio: ${message.message}`));
+                break;
+        }
+    }
+
+    private settle(id: number, error?: unknown) {
+        const playback = this.pending.get(id);
+        this.pending.delete(id);
+        if (error) {
+            playback?.reject(error);
+        } else {
+            playback?.resolve();
+        }
+    }
+
+    private getHtml(): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; media-src data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Piper TTS Audio</title>
+<style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-descriptionForeground); padding: 16px; }
+</style>
+</head>
+<body>
+<p>Piper TTS plays speech here with its built-in player. Keep this tab open while listening, it can stay in the background. Install an audio player program or set piper-tts.player to stream speech without it.</p>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    let current;
+
+    function stop() {
+        if (current) {
+            current.audio.pause();
+            current = undefined;
+        }
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'play') {
+            stop();
+            const audio = new Audio('data:audio/wav;base64,' + message.audio);
+            current = { id: message.id, audio };
+            const report = (type, error) => {
+                if (current && current.audio === audio) {
+                    current = undefined;
+                    vscode.postMessage({ type, id: message.id, message: error ? String(error.message || error) : undefined });
+                }
+            };
+            audio.addEventListener('ended', () => report('ended'));
+            audio.addEventListener('error', () => report('error', audio.error ? 'media error ' + audio.error.code : 'unknown error'));
+            audio.play().catch(error => report('error', error));
+        } else if (message.type === 'stop' && current && current.id === message.id) {
+            stop();
+        }
+    });
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+    }
+}